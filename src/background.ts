@@ -1,16 +1,57 @@
+import { TokenCompleter } from './core/completion'
+import { HistoryManager } from './core/history'
+import {
+  buildFallbackSearchUrl,
+  describeEnter,
+  isRawUrl,
+  OMNIBOX_HINT,
+  pickDescription,
+  toSearchDisposition
+} from './core/omnibox'
 import { URLParser } from './core/parser'
 import { StorageManager } from './core/storage'
-import type { DevNavigatorConfig, ParsedInput } from './types'
+import { SubscriptionManager } from './core/subscription'
+import { tokenizeInput } from './core/tokenizer'
+import type {
+  ConstructedUrl,
+  DevNavigatorConfig,
+  DraftToken,
+  HistoryEntry,
+  ParsedInput,
+  TabGroupOptions,
+  Token
+} from './types'
 import type { ChromeOmniboxSuggestion } from './types/chrome-api'
+import {
+  COMPLETION,
+  OMNIBOX_COMMANDS,
+  STORAGE_KEYS,
+  SUBSCRIPTION
+} from './utils/constants'
+import {
+  escapeXml,
+  formatDescription,
+  isBaseUrl,
+  resolveTokenMap
+} from './utils/helpers'
 
 class DevNavigatorExtension {
   private parser: URLParser
+  private completer: TokenCompleter
   private storage: StorageManager
+  private history: HistoryManager
+  private subscription: SubscriptionManager
   private config: DevNavigatorConfig | null = null
+  private recent: HistoryEntry[] = []
+  // Last navigation timestamp per token key, used to boost completions
+  private lastUsed: Record<string, number> = {}
 
   constructor() {
     this.parser = new URLParser()
+    this.completer = new TokenCompleter()
     this.storage = new StorageManager()
+    this.history = new HistoryManager()
+    this.subscription = new SubscriptionManager()
     this.init()
   }
 
@@ -19,12 +60,21 @@ class DevNavigatorExtension {
    */
   private async init(): Promise<void> {
     try {
-      // Load initial configuration
-      this.config = await this.storage.getConfig()
+      // Load initial configuration; one that can't be read yet is loaded on
+      // the next change or omnibox input
+      this.config = await this.storage.getConfig().catch(error => {
+        console.warn('Configuration not readable yet:', error)
+        return null
+      })
+      this.setRecent(await this.history.getEntries())
 
       // Setup event listeners
       this.setupEventListeners()
 
+      // Refresh the team config if the worker slept through an alarm
+      await this.scheduleSubscriptionRefresh()
+      await this.syncSubscription(false)
+
       // Set default suggestion
       this.setDefaultSuggestion()
 
@@ -57,9 +107,26 @@ class DevNavigatorExtension {
     )
 
     // Listen for configuration changes
-    this.storage.onConfigChanged((newConfig: DevNavigatorConfig) => {
-      this.config = newConfig
+    this.storage.onConfigChanged(({ config }) => {
+      const previousUrl = this.config?.settings.subscribeUrl
+      this.config = config
       this.setDefaultSuggestion()
+
+      if (config.settings.subscribeUrl !== previousUrl) {
+        this.syncSubscription(true)
+      }
+    })
+
+    // Periodic refresh of the subscribed team config
+    chrome.alarms.onAlarm.addListener(alarm => {
+      if (alarm.name === SUBSCRIPTION.ALARM) {
+        this.syncSubscription(true)
+      }
+    })
+
+    // Keep frecency data current (history is also cleared from the side panel)
+    this.history.onHistoryChanged(entries => {
+      this.setRecent(entries)
     })
 
     // Handle extension icon click (open side panel)
@@ -76,6 +143,44 @@ class DevNavigatorExtension {
       .catch(error => console.error('Failed to set panel behavior:', error))
   }
 
+  /**
+   * Create the refresh alarm once - alarms outlive service worker restarts
+   */
+  private async scheduleSubscriptionRefresh(): Promise<void> {
+    const existing = await chrome.alarms.get(SUBSCRIPTION.ALARM)
+    if (!existing) {
+      await chrome.alarms.create(SUBSCRIPTION.ALARM, {
+        periodInMinutes: SUBSCRIPTION.REFRESH_MINUTES
+      })
+    }
+  }
+
+  /**
+   * Fetch the subscribed team config, or drop its tokens after unsubscribing
+   * The refreshed cache reaches this.config through onConfigChanged
+   * @param force - Fetch even if the cached copy is recent
+   */
+  private async syncSubscription(force: boolean): Promise<void> {
+    try {
+      const url = this.config?.settings.subscribeUrl
+      const state = await this.subscription.getState()
+
+      if (!url) {
+        if (state) await this.subscription.clear()
+        return
+      }
+
+      if (force || this.subscription.isStale(state, url)) {
+        const refreshed = await this.subscription.refresh(url)
+        if (refreshed.error) {
+          console.warn('Failed to sync team config:', refreshed.error)
+        }
+      }
+    } catch (error) {
+      console.error('Failed to sync team config:', error)
+    }
+  }
+
   /**
    * Validates and sanitizes omnibox suggestion content
    * Chrome's omnibox API requires non-empty content strings or it crashes silently
@@ -94,6 +199,18 @@ class DevNavigatorExtension {
     return content.trim()
   }
 
+  /**
+   * Picks a suggestion description: the omnibox markup, or just the escaped
+   * plain text when settings.showDescriptions is off
+   * @param markup - Description built with <match>, <dim> and <url>, already escaped
+   * @param plain - Unescaped fallback text, usually the URL
+   */
+  private describe(markup: string, plain: string): string {
+    return this.config
+      ? pickDescription(markup, plain, this.config.settings)
+      : escapeXml(plain)
+  }
+
   /**
    * Handle omnibox input changes and provide suggestions
    */
@@ -107,23 +224,54 @@ class DevNavigatorExtension {
         this.config = await this.storage.getConfig()
       }
 
+      // "@prod" - offer the current page on other environments
+      if (this.isSwitchCommand(text)) {
+        const key = text.trim().slice(1)
+        this.setDefaultSuggestion(
+          key in resolveTokenMap(this.config)
+            ? this.describe(
+                `Open this page on <match>${escapeXml(key)}</match>`,
+                `Open this page on ${key}`
+              )
+            : escapeXml('Pick an environment to open this page on')
+        )
+        suggest(await this.generateSwitchSuggestions(text))
+        return
+      }
+
       const suggestions: ChromeOmniboxSuggestion[] = []
 
       // Parse the input
       const parsed = this.parser.parse(text, this.config)
-      const constructed = this.parser.construct(parsed, this.config)
 
-      // Only show suggestions if we have a valid URL
-      if (constructed.isValid && constructed.url) {
+      // The default suggestion shows what Enter does with the input as typed,
+      // so the resolved URL or the reason it doesn't resolve isn't repeated below
+      this.setDefaultSuggestion(
+        describeEnter(
+          parsed,
+          this.parser.constructAll(parsed, this.config),
+          this.config
+        )
+      )
+
+      // Past navigations that extend the input, most frecent first
+      this.history.findFrecent(this.recent, text).forEach(entry => {
         suggestions.push({
-          content: constructed.url,
-          description: constructed.url
+          content: this.validateSuggestionContent(entry.input),
+          description: this.describe(
+            `<match>${escapeXml(entry.input)}</match> <dim>→ <url>${escapeXml(entry.url)}</url> (${entry.count}×)</dim>`,
+            entry.url
+          )
         })
-      }
+      })
 
-      suggest(suggestions)
+      // Complete the segment currently being typed
+      suggestions.push(...this.generatePartialSuggestions(text, parsed))
+
+      suggest(suggestions.slice(0, COMPLETION.MAX_SUGGESTIONS))
     } catch (error) {
       console.error('Error handling input change:', error)
+      this.setDefaultSuggestion()
       suggest([])
     }
   }
@@ -141,22 +289,70 @@ class DevNavigatorExtension {
         this.config = await this.storage.getConfig()
       }
 
-      let urlToNavigate = text
+      if (this.isSwitchCommand(text)) {
+        await this.switchEnvironment(text.trim().slice(1), disposition)
+        return
+      }
+
+      let urlToNavigate = text.trim()
 
-      // If text doesn't look like a URL, try to construct it
-      if (!text.startsWith('http')) {
+      // If text isn't a URL already, try to construct it
+      if (!isRawUrl(text)) {
         const parsed = this.parser.parse(text, this.config)
         const constructed = this.parser.construct(parsed, this.config)
 
-        if (constructed.isValid) {
-          urlToNavigate = constructed.url
-        } else {
-          // Fallback strategy: Search rather than showing error for better UX
-          // Design choice: Google search provides value even for failed constructions
-          urlToNavigate = `https://www.google.com/search?q=${encodeURIComponent(
-            text
-          )}`
+        if (!constructed.isValid) {
+          await this.handleFallback(
+            text,
+            parsed,
+            constructed,
+            this.resolveDisposition(disposition, undefined, parsed.forceNewTab)
+          )
+          return
         }
+
+        urlToNavigate = constructed.url
+        const tokens = resolveTokenMap(this.config, parsed.profile)
+        const base = parsed.tokens.find(
+          token => token.isResolved && isBaseUrl(token.value)
+        )
+        const multiToken = parsed.multiToken
+          ? tokens[parsed.multiToken]
+          : undefined
+        disposition = this.resolveDisposition(
+          disposition,
+          multiToken || (base && tokens[base.key]),
+          parsed.forceNewTab
+        )
+        await this.history.recordNavigation(
+          text,
+          urlToNavigate,
+          parsed.tokens
+            .filter(token => token.isResolved)
+            .map(token => token.key)
+        )
+
+        if (parsed.multiToken && multiToken) {
+          await this.navigateToUrl(
+            this.parser
+              .constructAll(parsed, this.config)
+              .map(member => member.url),
+            disposition,
+            multiToken.group && {
+              ...multiToken.group,
+              title: multiToken.group.title || parsed.multiToken
+            }
+          )
+          return
+        }
+      } else {
+        // A selected suggestion - its content is already the final URL
+        const match = this.parser.findBaseToken(text, this.config)
+        disposition = this.resolveDisposition(
+          disposition,
+          match ? resolveTokenMap(this.config)[match.key] : undefined,
+          false
+        )
       }
 
       // Navigate based on disposition
@@ -166,13 +362,98 @@ class DevNavigatorExtension {
     }
   }
 
+  /**
+   * Pick how to open a URL
+   * Chrome passes currentTab for a plain Enter, so anything else (e.g. Alt+Enter) was
+   * chosen explicitly and wins. Otherwise a trailing ! opens a new tab, then the base
+   * token's open mode applies, then settings.defaultDisposition.
+   */
+  private resolveDisposition(
+    disposition: chrome.omnibox.OnInputEnteredDisposition,
+    baseToken: Token | undefined,
+    forceNewTab: boolean | undefined
+  ): chrome.omnibox.OnInputEnteredDisposition {
+    if (disposition !== 'currentTab') return disposition
+    if (forceNewTab) return 'newForegroundTab'
+
+    return (
+      baseToken?.disposition ||
+      this.config?.settings.defaultDisposition ||
+      disposition
+    )
+  }
+
+  /**
+   * Apply settings.fallback to input that doesn't resolve to a URL
+   */
+  private async handleFallback(
+    text: string,
+    parsed: ParsedInput,
+    constructed: ConstructedUrl,
+    disposition: chrome.omnibox.OnInputEnteredDisposition
+  ): Promise<void> {
+    const { fallback, fallbackSearchUrl } = this.config!.settings
+
+    switch (fallback) {
+      case 'newToken':
+        await this.openDraftToken(text, parsed)
+        break
+      case 'notify':
+        this.notify(`Can't open "${text.trim()}"`, constructed.description)
+        break
+      case 'defaultSearch':
+        await chrome.search.query({
+          text: text.trim(),
+          disposition: toSearchDisposition(disposition)
+        })
+        break
+      default:
+        await this.navigateToUrl(
+          buildFallbackSearchUrl(fallbackSearchUrl, text),
+          disposition
+        )
+    }
+  }
+
+  /**
+   * Open the side panel with the first unknown segment as a new token's key
+   * The panel picks the draft up from session storage, whether or not it was already open
+   */
+  private async openDraftToken(
+    text: string,
+    parsed: ParsedInput
+  ): Promise<void> {
+    // Open before any await - sidePanel.open needs the omnibox user gesture
+    const opened = chrome.sidePanel
+      .open({ windowId: chrome.windows.WINDOW_ID_CURRENT })
+      .catch(error => console.error('Failed to open side panel:', error))
+
+    const unknown = parsed.tokens.find(token => !token.isResolved)
+    const draft: DraftToken = {
+      key: unknown ? unknown.key : text.trim(),
+      value: ''
+    }
+    await chrome.storage.session.set({ [STORAGE_KEYS.DRAFT_TOKEN]: draft })
+    await opened
+  }
+
   /**
    * Navigate to URL based on disposition
+   * Several URLs always open in new tabs, optionally collected into a tab group
    */
   private async navigateToUrl(
-    url: string,
-    disposition: chrome.omnibox.OnInputEnteredDisposition
+    url: string | string[],
+    disposition: chrome.omnibox.OnInputEnteredDisposition,
+    group?: TabGroupOptions
   ): Promise<void> {
+    if (Array.isArray(url)) {
+      if (url.length > 1) {
+        await this.openTabs(url, disposition, group)
+        return
+      }
+      url = url[0]
+    }
+
     try {
       switch (disposition) {
         case 'currentTab':
@@ -193,7 +474,155 @@ class DevNavigatorExtension {
   }
 
   /**
-   * Generate partial completion suggestions
+   * Open each URL in a new tab - the first is focused unless opening in the background
+   */
+  private async openTabs(
+    urls: string[],
+    disposition: chrome.omnibox.OnInputEnteredDisposition,
+    group?: TabGroupOptions
+  ): Promise<void> {
+    try {
+      const tabIds: number[] = []
+      for (const url of urls) {
+        const tab = await chrome.tabs.create({
+          url,
+          active: tabIds.length === 0 && disposition !== 'newBackgroundTab'
+        })
+        if (tab.id !== undefined) tabIds.push(tab.id)
+      }
+
+      if (group && tabIds.length > 0) {
+        const groupId = await chrome.tabs.group({ tabIds })
+        await chrome.tabGroups.update(groupId, {
+          title: group.title,
+          color: group.color,
+          collapsed: !!group.collapsed
+        })
+      }
+    } catch (error) {
+      console.error('Failed to open tabs:', error)
+    }
+  }
+
+  /**
+   * Whether the input is an environment switch like "@prod"
+   * Legacy "@dev api" input (multiple segments or a non-base token) still parses as usual
+   */
+  private isSwitchCommand(text: string): boolean {
+    const trimmed = text.trim()
+    if (
+      !trimmed.startsWith(OMNIBOX_COMMANDS.SWITCH_ENVIRONMENT) ||
+      /\s/.test(trimmed)
+    ) {
+      return false
+    }
+
+    const key = trimmed.slice(1)
+    const token = this.config && resolveTokenMap(this.config)[key]
+    // A partial "@pr" is still a switch command while the user is typing
+    return token ? isBaseUrl(token.value) : true
+  }
+
+  /**
+   * Show an error the omnibox can't display once Enter has been pressed
+   */
+  private notify(title: string, message: string): void {
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: 'icons/icon128.png',
+      title,
+      message
+    })
+  }
+
+  /**
+   * Rewrite the active tab's URL onto another base token and navigate there
+   */
+  private async switchEnvironment(
+    targetKey: string,
+    disposition: chrome.omnibox.OnInputEnteredDisposition
+  ): Promise<void> {
+    const tabUrl = await this.getActiveTabUrl()
+    if (!tabUrl || !this.config) return
+
+    const switched = this.parser.switchBase(tabUrl, targetKey, this.config)
+    if (!switched.isValid) {
+      this.notify(`Can't switch to @${targetKey}`, switched.description)
+      return
+    }
+
+    await this.navigateToUrl(
+      switched.url,
+      this.resolveDisposition(
+        disposition,
+        resolveTokenMap(this.config)[targetKey],
+        false
+      )
+    )
+  }
+
+  /**
+   * Suggest the active page on each matching base token
+   */
+  private async generateSwitchSuggestions(
+    text: string
+  ): Promise<ChromeOmniboxSuggestion[]> {
+    if (!this.config) return []
+
+    const config = this.config
+    const tabUrl = await this.getActiveTabUrl()
+    if (!tabUrl) return []
+
+    const partial = text.trim().slice(1)
+    const tokens = resolveTokenMap(config)
+    const baseKeys = Object.keys(tokens).filter(key =>
+      isBaseUrl(tokens[key].value)
+    )
+    const keys = partial
+      ? this.completer.rank(partial, baseKeys, this.lastUsed).map(m => m.key)
+      : baseKeys.slice(0, COMPLETION.MAX_SUGGESTIONS)
+
+    return keys.map(key => {
+      const switched = this.parser.switchBase(tabUrl, key, config)
+      return {
+        content: `${OMNIBOX_COMMANDS.SWITCH_ENVIRONMENT}${key}`,
+        description: switched.isValid
+          ? this.describe(
+              `Switch to <match>${escapeXml(key)}</match> <dim>→ <url>${escapeXml(switched.url)}</url></dim>`,
+              switched.url
+            )
+          : escapeXml(`${key}: ${switched.description}`)
+      }
+    })
+  }
+
+  /**
+   * URL of the active tab in the current window
+   */
+  private async getActiveTabUrl(): Promise<string | undefined> {
+    try {
+      const [tab] = await chrome.tabs.query({
+        active: true,
+        currentWindow: true
+      })
+      return tab?.url
+    } catch (error) {
+      console.error('Failed to query active tab:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * Cache history entries and the per-token last use derived from them
+   */
+  private setRecent(entries: HistoryEntry[]): void {
+    this.recent = entries
+    this.lastUsed = this.history.getTokenLastUsed(entries)
+  }
+
+  /**
+   * Generate ranked completions for the last (partial) segment of the input
+   * e.g. "dev sta" offers "dev staging" and "dev staging-server"
    */
   private generatePartialSuggestions(
     text: string,
@@ -203,24 +632,54 @@ class DevNavigatorExtension {
 
     if (!this.config) return suggestions
 
-    // Suggest any available tokens that could extend the current input
-    const availableTokens = Object.entries(this.config.tokens).slice(0, 3) // Limit to 3 suggestions
+    // Complete against the profile the input targets ("payments: sta")
+    const tokens = resolveTokenMap(this.config, parsed.profile)
+    const input = text.replace(/^\s+/, '')
+    const { segments } = tokenizeInput(input)
+    const last = segments[segments.length - 1]
+
+    // Complete the unquoted word under the cursor, or a new word after a space;
+    // quoted words are arguments, never token keys
+    const completing = last && !/\s$/.test(input) ? last : null
+    if (completing?.quoted) return suggestions
+
+    // Everything after a search token is search text, not token keys
+    const searchToken = parsed.tokens.find(token => token.query !== undefined)
+    if (searchToken && (searchToken.query || !completing)) return suggestions
+
+    const partial = completing ? completing.text : ''
+    const prefix = completing ? input.slice(0, completing.column - 1) : input
+    const matches = this.completer.rank(
+      partial,
+      Object.keys(tokens),
+      this.lastUsed
+    )
+
+    matches.forEach(({ key }) => {
+      const suggestionText = prefix + key
+      if (suggestionText === parsed.originalInput) return
 
-    availableTokens.forEach(([tokenKey, token]) => {
-      const suggestionText = `${text} ${tokenKey}`
       const testParsed = this.parser.parse(suggestionText, this.config!)
       const testConstructed = this.parser.construct(testParsed, this.config!)
-
-      if (testConstructed.isValid) {
-        const content = this.validateSuggestionContent(
-          testConstructed.content || testConstructed.url,
-          suggestionText
+      const resolved = testConstructed.isValid
+        ? testConstructed.url
+        : tokens[key].value
+
+      suggestions.push({
+        content: this.validateSuggestionContent(suggestionText),
+        description: this.describe(
+          testConstructed.isValid
+            ? formatDescription(testParsed.tokens, [resolved])
+            : testParsed.missingPlaceholders.length > 0
+              ? formatDescription(
+                  testParsed.tokens,
+                  [],
+                  testParsed.missingPlaceholders
+                )
+              : `<match>${escapeXml(key)}</match> <dim>→ ${escapeXml(resolved)}</dim>`,
+          resolved
         )
-        suggestions.push({
-          content: content,
-          description: testConstructed.url
-        })
-      }
+      })
     })
 
     return suggestions
@@ -247,10 +706,13 @@ class DevNavigatorExtension {
   }
 
   /**
-   * Set the default omnibox suggestion
+   * Set the default omnibox suggestion, the row Enter acts on
+   * @param description - Description in omnibox markup; a usage hint when omitted
    */
-  private setDefaultSuggestion(): void {
-    // Default suggestion removed - no placeholder text
+  private setDefaultSuggestion(
+    description: string = escapeXml(OMNIBOX_HINT)
+  ): void {
+    chrome.omnibox.setDefaultSuggestion({ description })
   }
 }
 
@@ -0,0 +1,121 @@
+import type {
+  BookmarkCandidate,
+  BookmarkConflict,
+  BookmarkFolder,
+  Token
+} from '../types'
+import { sanitizeTokenKey } from '../utils/helpers'
+
+export class BookmarkImporter {
+  /**
+   * Lists every bookmark folder, depth first, with its path from the root
+   * @returns Folders in bookmark-manager order
+   */
+  async getFolders(): Promise<BookmarkFolder[]> {
+    const tree = await chrome.bookmarks.getTree()
+    const folders: BookmarkFolder[] = []
+
+    const visit = (node: chrome.bookmarks.BookmarkTreeNode, path: string[]) => {
+      const children = node.children || []
+
+      // The root node has no title and holds the top-level folders
+      const nodePath = node.title ? [...path, node.title] : path
+      if (node.title) {
+        folders.push({
+          id: node.id,
+          path: nodePath.join(' / '),
+          bookmarkCount: children.filter(child => child.url).length
+        })
+      }
+
+      for (const child of children) {
+        if (!child.url) visit(child, nodePath)
+      }
+    }
+
+    for (const node of tree) {
+      visit(node, [])
+    }
+    return folders
+  }
+
+  /**
+   * Proposes a token for each bookmark directly inside a folder
+   * @param folderId - Bookmark folder to import from
+   * @param tokens - Tokens the import would be added to, for conflict detection
+   * @returns Candidates in folder order
+   */
+  async getCandidates(
+    folderId: string,
+    tokens: Record<string, Token>
+  ): Promise<BookmarkCandidate[]> {
+    const children = await chrome.bookmarks.getChildren(folderId)
+    return this.buildCandidates(children, tokens)
+  }
+
+  /**
+   * Derives token keys from bookmark titles and classifies them against existing tokens
+   * Keys repeated within the folder get a numeric suffix, e.g. "api-2"
+   * @param bookmarks - Bookmark nodes; folders are skipped
+   * @param tokens - Tokens the import would be added to
+   * @returns Candidates, with duplicates of existing tokens deselected
+   */
+  buildCandidates(
+    bookmarks: chrome.bookmarks.BookmarkTreeNode[],
+    tokens: Record<string, Token>
+  ): BookmarkCandidate[] {
+    const usedKeys = new Set<string>()
+
+    return bookmarks
+      .filter(bookmark => bookmark.url)
+      .map(bookmark => {
+        const url = bookmark.url as string
+        const baseKey =
+          sanitizeTokenKey(bookmark.title) || this.keyFromUrl(url) || 'bookmark'
+
+        let key = baseKey
+        for (let suffix = 2; usedKeys.has(key); suffix++) {
+          key = `${baseKey}-${suffix}`
+        }
+        usedKeys.add(key)
+
+        const conflict = this.classify(key, url, tokens)
+        return {
+          id: bookmark.id,
+          title: bookmark.title,
+          url,
+          key,
+          conflict,
+          selected: conflict !== 'duplicate'
+        }
+      })
+  }
+
+  /**
+   * Checks a proposed key against existing tokens
+   * @param key - Proposed token key
+   * @param url - Bookmark URL
+   * @param tokens - Tokens the import would be added to
+   */
+  classify(
+    key: string,
+    url: string,
+    tokens: Record<string, Token>
+  ): BookmarkConflict {
+    const existing = tokens[key]
+    if (!existing) return 'new'
+    return existing.value === url ? 'duplicate' : 'conflict'
+  }
+
+  /**
+   * Falls back to the first hostname label for untitled bookmarks, e.g. "staging" for www.staging.app.com
+   */
+  private keyFromUrl(url: string): string {
+    try {
+      const hostname = new URL(url).hostname.replace(/^www\./, '')
+      return sanitizeTokenKey(hostname.split('.')[0])
+    } catch {
+      return ''
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import type { TokenMatch } from '../types'
+import { COMPLETION } from '../utils/constants'
+
+export class TokenCompleter {
+  /**
+   * Ranks token keys against a partial segment
+   * Prefix matches beat subsequence (fuzzy) matches; recently used tokens get a boost
+   * @param partial - The partial segment the user is typing, e.g. "sta"
+   * @param keys - Candidate token keys
+   * @param lastUsed - Optional map of token key to last-use timestamp (ms)
+   * @returns Matches sorted by descending score, limited to COMPLETION.MAX_SUGGESTIONS
+   */
+  rank(
+    partial: string,
+    keys: string[],
+    lastUsed: Record<string, number> = {}
+  ): TokenMatch[] {
+    const query = partial.trim().toLowerCase()
+    if (!query) return []
+
+    const now = Date.now()
+    const matches: TokenMatch[] = []
+
+    keys.forEach(key => {
+      const matchScore = this.scoreMatch(query, key.toLowerCase())
+      if (matchScore === null) return
+
+      matches.push({
+        key,
+        score: matchScore + this.scoreRecency(lastUsed[key], now)
+      })
+    })
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.key.localeCompare(b.key))
+      .slice(0, COMPLETION.MAX_SUGGESTIONS)
+  }
+
+  /**
+   * Scores how well a key matches the query
+   * @returns Score, or null when the query is not a subsequence of the key
+   */
+  private scoreMatch(query: string, key: string): number | null {
+    if (key.startsWith(query)) {
+      // Shorter keys are closer to what was typed
+      return COMPLETION.PREFIX_SCORE - (key.length - query.length)
+    }
+
+    // Subsequence match: every query character appears in order
+    let keyIndex = 0
+    let gaps = 0
+    for (const char of query) {
+      const found = key.indexOf(char, keyIndex)
+      if (found === -1) return null
+      gaps += found - keyIndex
+      keyIndex = found + 1
+    }
+
+    return COMPLETION.FUZZY_SCORE - gaps
+  }
+
+  /**
+   * Scores recent use with a boost that halves every COMPLETION.RECENCY_HALF_LIFE_MS
+   */
+  private scoreRecency(timestamp: number | undefined, now: number): number {
+    if (!timestamp) return 0
+    const age = Math.max(0, now - timestamp)
+    return (
+      COMPLETION.RECENCY_SCORE * 0.5 ** (age / COMPLETION.RECENCY_HALF_LIFE_MS)
+    )
+  }
+}
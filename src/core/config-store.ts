@@ -0,0 +1,197 @@
+import type { DevNavigatorConfig, StorageUsage } from '../types'
+import { STORAGE_KEYS, SYNC_QUOTA } from '../utils/constants'
+import { getByteSize, isObject } from '../utils/helpers'
+
+// Stored under STORAGE_KEYS.CONFIG in place of the config once it is split into chunks
+interface ChunkManifest {
+  chunks: number
+  version: string
+}
+
+/**
+ * Physical layout of the config in Chrome storage
+ *
+ * Small configs stay a single sync item (readable by older versions). Configs over the
+ * per-item quota are serialized and split across numbered sync items, with a manifest
+ * under the config key. Configs over the total sync quota fall back to local storage
+ * on this device until they shrink again.
+ */
+export class ConfigStore {
+  private sync: chrome.storage.StorageArea
+  private local: chrome.storage.StorageArea
+
+  constructor() {
+    this.sync = chrome.storage.sync
+    this.local = chrome.storage.local
+  }
+
+  /**
+   * Reads the stored config from whichever layout holds it
+   * @returns Raw stored config (any schema version), or undefined if none is stored
+   */
+  async read(): Promise<unknown> {
+    // A local copy only exists while the config is too large for sync
+    const localResult = await this.local.get(STORAGE_KEYS.CONFIG)
+    if (localResult?.[STORAGE_KEYS.CONFIG]) {
+      return localResult[STORAGE_KEYS.CONFIG]
+    }
+
+    const result = await this.sync.get(STORAGE_KEYS.CONFIG)
+    const stored = result?.[STORAGE_KEYS.CONFIG]
+    if (!this.isManifest(stored)) return stored
+
+    const keys = this.chunkKeys(stored.chunks)
+    const chunks = await this.sync.get(keys)
+    if (keys.some(key => typeof chunks[key] !== 'string')) {
+      // Another device may be halfway through syncing a write
+      throw new Error('Stored configuration chunks are incomplete')
+    }
+
+    return JSON.parse(keys.map(key => chunks[key]).join(''))
+  }
+
+  /**
+   * Writes the config to sync, chunked if needed, or to local storage when it exceeds the sync quota
+   * @param config - Configuration to store
+   * @returns Storage usage after the write
+   */
+  async write(config: DevNavigatorConfig): Promise<StorageUsage> {
+    const items = this.buildSyncItems(config)
+    const usage = this.measure(items)
+
+    if (usage.area === 'local') {
+      // Sync keeps its last good copy; this device continues from local storage
+      await this.local.set({ [STORAGE_KEYS.CONFIG]: config })
+      return usage
+    }
+
+    const previousChunks = await this.countStoredChunks()
+    await this.sync.set(items)
+
+    const staleKeys = this.chunkKeys(previousChunks).filter(
+      key => !(key in items)
+    )
+    if (staleKeys.length > 0) {
+      await this.sync.remove(staleKeys)
+    }
+    await this.local.remove(STORAGE_KEYS.CONFIG)
+
+    return usage
+  }
+
+  /**
+   * Computes how much sync quota a config would take, without writing it
+   * @param config - Configuration to measure
+   */
+  getUsage(config: DevNavigatorConfig): StorageUsage {
+    return this.measure(this.buildSyncItems(config))
+  }
+
+  /**
+   * Whether a storage key belongs to the config layout
+   */
+  isConfigKey(key: string): boolean {
+    return (
+      key === STORAGE_KEYS.CONFIG ||
+      key.startsWith(STORAGE_KEYS.CONFIG_CHUNK_PREFIX)
+    )
+  }
+
+  /**
+   * Builds the sync items for a config: the config itself when it fits in one item,
+   * otherwise a manifest plus numbered chunks of its JSON
+   */
+  private buildSyncItems(config: DevNavigatorConfig): Record<string, unknown> {
+    if (
+      this.itemSize(STORAGE_KEYS.CONFIG, config) <= SYNC_QUOTA.BYTES_PER_ITEM
+    ) {
+      return { [STORAGE_KEYS.CONFIG]: config }
+    }
+
+    const chunks = this.splitIntoChunks(JSON.stringify(config))
+    const manifest: ChunkManifest = {
+      chunks: chunks.length,
+      version: config.version
+    }
+    const items: Record<string, unknown> = { [STORAGE_KEYS.CONFIG]: manifest }
+
+    chunks.forEach((chunk, index) => {
+      items[this.chunkKey(index)] = chunk
+    })
+
+    return items
+  }
+
+  /**
+   * Splits serialized JSON so each chunk, JSON-encoded with its key, fits in one sync item
+   */
+  private splitIntoChunks(serialized: string): string[] {
+    const chunks: string[] = []
+    let start = 0
+
+    while (start < serialized.length) {
+      const key = this.chunkKey(chunks.length)
+      let end = Math.min(serialized.length, start + SYNC_QUOTA.BYTES_PER_ITEM)
+
+      // Escaped quotes and multi-byte characters make chunks larger than their length
+      while (
+        end - start > 1 &&
+        this.itemSize(key, serialized.slice(start, end)) >
+          SYNC_QUOTA.BYTES_PER_ITEM
+      ) {
+        end = start + Math.floor((end - start) * 0.9)
+      }
+
+      chunks.push(serialized.slice(start, end))
+      start = end
+    }
+
+    return chunks
+  }
+
+  private measure(items: Record<string, unknown>): StorageUsage {
+    const keys = Object.keys(items)
+    const bytesUsed = keys.reduce(
+      (total, key) => total + this.itemSize(key, items[key]),
+      0
+    )
+    const fits =
+      keys.length <= SYNC_QUOTA.MAX_ITEMS &&
+      bytesUsed <= SYNC_QUOTA.BYTES * SYNC_QUOTA.SAFETY_MARGIN &&
+      keys.every(
+        key => this.itemSize(key, items[key]) <= SYNC_QUOTA.BYTES_PER_ITEM
+      )
+
+    return {
+      area: fits ? 'sync' : 'local',
+      bytesUsed,
+      quotaBytes: SYNC_QUOTA.BYTES,
+      items: keys.length
+    }
+  }
+
+  /**
+   * Size of a sync item the way Chrome counts it: key plus JSON of the value
+   */
+  private itemSize(key: string, value: unknown): number {
+    return getByteSize(key + JSON.stringify(value))
+  }
+
+  private async countStoredChunks(): Promise<number> {
+    const result = await this.sync.get(STORAGE_KEYS.CONFIG)
+    const stored = result?.[STORAGE_KEYS.CONFIG]
+    return this.isManifest(stored) ? stored.chunks : 0
+  }
+
+  private isManifest(obj: unknown): obj is ChunkManifest {
+    return isObject(obj) && typeof obj.chunks === 'number' && !('tokens' in obj)
+  }
+
+  private chunkKey(index: number): string {
+    return `${STORAGE_KEYS.CONFIG_CHUNK_PREFIX}${index}`
+  }
+
+  private chunkKeys(count: number): string[] {
+    return Array.from({ length: count }, (_, index) => this.chunkKey(index))
+  }
+}
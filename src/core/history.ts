@@ -0,0 +1,134 @@
+import type { HistoryEntry } from '../types'
+import { HISTORY, STORAGE_KEYS } from '../utils/constants'
+
+export class HistoryManager {
+  private storage: chrome.storage.StorageArea
+
+  constructor() {
+    // History is per-device and can grow large, so keep it out of sync storage
+    this.storage = chrome.storage.local
+  }
+
+  /**
+   * Retrieves recorded navigations
+   * @returns Promise with history entries, most frecent first
+   */
+  async getEntries(): Promise<HistoryEntry[]> {
+    try {
+      const result = await this.storage.get(STORAGE_KEYS.HISTORY)
+      const stored = result?.[STORAGE_KEYS.HISTORY]
+      return Array.isArray(stored) ? this.sortByFrecency(stored) : []
+    } catch (error) {
+      console.error('Failed to get history from storage:', error)
+      return []
+    }
+  }
+
+  /**
+   * Records a navigation, bumping the count of a repeated input
+   * @param input - Omnibox input that was entered
+   * @param url - URL that was navigated to
+   * @param tokens - Resolved token keys used in the input
+   */
+  async recordNavigation(
+    input: string,
+    url: string,
+    tokens: string[]
+  ): Promise<void> {
+    // Trimmed only - spaces inside quotes ("a  b") are part of the URL
+    const normalized = input.trim()
+    if (!normalized) return
+
+    const entries = await this.getEntries()
+    const existing = entries.find(entry => entry.input === normalized)
+    const now = Date.now()
+
+    if (existing) {
+      existing.url = url
+      existing.tokens = tokens
+      existing.count++
+      existing.lastUsed = now
+    } else {
+      entries.push({ input: normalized, url, tokens, count: 1, lastUsed: now })
+    }
+
+    try {
+      await this.storage.set({
+        [STORAGE_KEYS.HISTORY]: this.sortByFrecency(entries).slice(
+          0,
+          HISTORY.MAX_ENTRIES
+        )
+      })
+    } catch (error) {
+      console.error('Failed to save history to storage:', error)
+    }
+  }
+
+  /**
+   * Removes all recorded navigations
+   */
+  async clearHistory(): Promise<void> {
+    await this.storage.remove(STORAGE_KEYS.HISTORY)
+  }
+
+  /**
+   * Finds past inputs that extend what the user has typed, most frecent first
+   * e.g. "dev" matches "dev 4821 admin"
+   * @param entries - History entries to search
+   * @param text - Current omnibox input
+   */
+  findFrecent(entries: HistoryEntry[], text: string): HistoryEntry[] {
+    const normalized = text.trim()
+    if (!normalized) return []
+
+    return this.sortByFrecency(
+      entries.filter(
+        entry =>
+          entry.input !== normalized && entry.input.startsWith(normalized)
+      )
+    ).slice(0, HISTORY.MAX_SUGGESTIONS)
+  }
+
+  /**
+   * Latest use of each token key across all entries
+   * @param entries - History entries to aggregate
+   * @returns Map of token key to last-use timestamp (ms)
+   */
+  getTokenLastUsed(entries: HistoryEntry[]): Record<string, number> {
+    const lastUsed: Record<string, number> = {}
+    entries.forEach(entry => {
+      entry.tokens.forEach(key => {
+        lastUsed[key] = Math.max(lastUsed[key] || 0, entry.lastUsed)
+      })
+    })
+    return lastUsed
+  }
+
+  /**
+   * Listens for history changes from any context
+   * @param callback - Function to call with the new entries
+   */
+  onHistoryChanged(callback: (entries: HistoryEntry[]) => void): void {
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes[STORAGE_KEYS.HISTORY]) {
+        const newValue = changes[STORAGE_KEYS.HISTORY].newValue
+        callback(Array.isArray(newValue) ? newValue : [])
+      }
+    })
+  }
+
+  /**
+   * Frecency: use count weighted by a recency decay that halves every HISTORY.HALF_LIFE_MS
+   */
+  private frecency(entry: HistoryEntry, now: number): number {
+    const age = Math.max(0, now - entry.lastUsed)
+    return entry.count * 0.5 ** (age / HISTORY.HALF_LIFE_MS)
+  }
+
+  private sortByFrecency(entries: HistoryEntry[]): HistoryEntry[] {
+    const now = Date.now()
+    return [...entries].sort(
+      (a, b) => this.frecency(b, now) - this.frecency(a, now)
+    )
+  }
+}
@@ -0,0 +1,150 @@
+import type { DevNavigatorConfig, Profile, Token } from '../types'
+import { DEFAULT_CONFIG } from '../utils/constants'
+
+// Configs written by older versions - any field may be missing or in an old shape
+type LegacyToken = string | { value?: unknown; type?: unknown }
+
+export interface LegacyConfig {
+  tokens?: Record<string, LegacyToken>
+  profiles?: Record<string, { tokens?: Record<string, LegacyToken> }>
+  activeProfile?: unknown
+  settings?: Partial<DevNavigatorConfig['settings']>
+  version?: string
+}
+
+export interface Migration {
+  // Version the config is at after this migration runs
+  version: string
+  description: string
+  migrate: (config: LegacyConfig) => LegacyConfig
+}
+
+export interface MigrationResult {
+  config: DevNavigatorConfig
+  fromVersion: string
+  // Versions of the migrations that ran, in order
+  applied: string[]
+}
+
+/**
+ * Ordered migration chain - append new steps, never edit released ones
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: '1.1.0',
+    description:
+      'Normalize legacy string tokens and { type, value } tokens to { value }',
+    migrate: config => ({
+      ...config,
+      tokens: normalizeTokens(config.tokens),
+      profiles: mapProfiles(config.profiles, profile => ({
+        ...profile,
+        tokens: normalizeTokens(profile.tokens)
+      }))
+    })
+  },
+  {
+    version: '1.2.0',
+    description: 'Add profiles map and drop a dangling active profile',
+    migrate: config => {
+      const profiles = config.profiles || {}
+      const activeProfile =
+        typeof config.activeProfile === 'string' &&
+        profiles[config.activeProfile]
+          ? config.activeProfile
+          : undefined
+
+      return { ...config, profiles, activeProfile }
+    }
+  }
+]
+
+export const CURRENT_CONFIG_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Compares dotted version strings numerically
+ * @returns Negative when a < b, zero when equal, positive when a > b
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(part => Number.parseInt(part, 10) || 0)
+  const right = b.split('.').map(part => Number.parseInt(part, 10) || 0)
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+/**
+ * Runs every migration newer than the config's version, in order
+ * Configs without a version are treated as predating the migration chain
+ * @param stored - Config as read from storage or an import file
+ * @returns Config at CURRENT_CONFIG_VERSION and the migrations that ran
+ */
+export function migrateConfig(stored: LegacyConfig): MigrationResult {
+  const fromVersion =
+    typeof stored.version === 'string' ? stored.version : '0.0.0'
+  const applied: string[] = []
+
+  const migrated = MIGRATIONS.reduce((config, migration) => {
+    if (compareVersions(migration.version, fromVersion) <= 0) return config
+
+    applied.push(migration.version)
+    return { ...migration.migrate(config), version: migration.version }
+  }, stored)
+
+  // Fill in anything still missing, with nested settings merged so new
+  // default settings reach older configs
+  const config: DevNavigatorConfig = {
+    ...DEFAULT_CONFIG,
+    ...(migrated as Partial<DevNavigatorConfig>),
+    settings: {
+      ...DEFAULT_CONFIG.settings,
+      ...migrated.settings
+    },
+    version:
+      compareVersions(migrated.version || '0.0.0', CURRENT_CONFIG_VERSION) > 0
+        ? (migrated.version as string)
+        : CURRENT_CONFIG_VERSION
+  }
+
+  return { config, fromVersion, applied }
+}
+
+/**
+ * Converts every token to the { value } shape, dropping entries without a usable value
+ */
+function normalizeTokens(
+  tokens: Record<string, LegacyToken> | undefined
+): Record<string, Token> {
+  const normalized: Record<string, Token> = {}
+
+  Object.entries(tokens || {}).forEach(([key, token]) => {
+    const value =
+      typeof token === 'string'
+        ? token
+        : token && typeof token.value === 'string'
+          ? token.value
+          : null
+
+    if (value !== null) {
+      normalized[key] = { value }
+    }
+  })
+
+  return normalized
+}
+
+function mapProfiles(
+  profiles: LegacyConfig['profiles'],
+  transform: (profile: { tokens?: Record<string, LegacyToken> }) => Profile
+): Record<string, Profile> | undefined {
+  if (!profiles) return undefined
+
+  const mapped: Record<string, Profile> = {}
+  Object.entries(profiles).forEach(([name, profile]) => {
+    mapped[name] = transform(profile || {})
+  })
+  return mapped
+}
@@ -0,0 +1,151 @@
+import type {
+  ConstructedUrl,
+  DevNavigatorConfig,
+  ExtensionSettings,
+  FallbackAction,
+  NavigationDisposition,
+  ParsedInput,
+  ValidationError
+} from '../types'
+import { URL_PATTERNS, VALIDATION_ERRORS } from '../utils/constants'
+import {
+  escapeXml,
+  formatDescription,
+  isBaseUrl,
+  resolveTokenMap
+} from '../utils/helpers'
+
+// Default suggestion before anything is typed
+export const OMNIBOX_HINT = 'Type shortcuts to build a URL, e.g. dev api users'
+
+// What Enter does with input that doesn't resolve, shown in the default suggestion
+const FALLBACK_HINTS: Record<FallbackAction, string> = {
+  search: 'Enter searches for it instead',
+  newToken: 'Enter adds it as a new shortcut',
+  notify: 'Enter shows this error',
+  defaultSearch: 'Enter searches with the default engine instead'
+}
+
+/**
+ * Picks a suggestion description: the omnibox markup, or just the escaped
+ * plain text when settings.showDescriptions is off
+ * @param markup - Description built with <match>, <dim> and <url>, already escaped
+ * @param plain - Unescaped fallback text, usually the URL
+ * @param settings - Current extension settings
+ */
+export function pickDescription(
+  markup: string,
+  plain: string,
+  settings: ExtensionSettings
+): string {
+  return settings.showDescriptions ? markup : escapeXml(plain)
+}
+
+/**
+ * Whether the input is a URL to open as typed, e.g. a selected suggestion
+ * Token keys that merely start with "http" (httpbin) are still parsed.
+ * @param text - Raw omnibox input
+ */
+export function isRawUrl(text: string): boolean {
+  return isBaseUrl(text.trim())
+}
+
+/**
+ * Describes what Enter will do with the input: open a raw URL or the resolved
+ * URLs, or why it doesn't resolve and which fallback runs instead
+ * @param parsed - Parsed omnibox input
+ * @param constructed - URLs built from it, one per multi-URL member
+ * @param config - Current extension configuration
+ * @returns Description in omnibox markup
+ */
+export function describeEnter(
+  parsed: ParsedInput,
+  constructed: ConstructedUrl[],
+  config: DevNavigatorConfig
+): string {
+  if (!parsed.originalInput) return escapeXml(OMNIBOX_HINT)
+
+  if (isRawUrl(parsed.originalInput)) {
+    const url = parsed.originalInput
+    return pickDescription(
+      `Open <url>${escapeXml(url)}</url>`,
+      url,
+      config.settings
+    )
+  }
+
+  const invalid = constructed.find(member => !member.isValid)
+  if (parsed.isValid && !invalid) {
+    const urls = constructed.map(member => member.url)
+    return pickDescription(
+      formatDescription(parsed.tokens, urls),
+      urls.join(', '),
+      config.settings
+    )
+  }
+
+  const message =
+    parsed.errors
+      .map(error => formatParseError(error, config, parsed.profile))
+      .join('; ') ||
+    invalid?.description ||
+    'Invalid input'
+  const hint = FALLBACK_HINTS[config.settings.fallback]
+  // "jira" waiting for its ticket shows where the value goes
+  const pending =
+    parsed.missingPlaceholders.length > 0
+      ? `${formatDescription(parsed.tokens, [], parsed.missingPlaceholders)} — `
+      : ''
+
+  return pickDescription(
+    `${pending}${escapeXml(message)} <dim>· ${escapeXml(hint)}</dim>`,
+    message,
+    config.settings
+  )
+}
+
+/**
+ * Words a parse error for the default suggestion
+ * A missing base lists the base tokens the input could use, e.g.
+ * "no base URL — add one of: dev, prod, staging"
+ * @param error - Error from ParsedInput.errors
+ * @param config - Current extension configuration
+ * @param profile - Profile the input was resolved against
+ */
+export function formatParseError(
+  error: ValidationError,
+  config: DevNavigatorConfig,
+  profile?: string
+): string {
+  if (error.code !== VALIDATION_ERRORS.MISSING_BASE) return error.message
+
+  const tokens = resolveTokenMap(config, profile)
+  const baseKeys = Object.keys(tokens).filter(key =>
+    isBaseUrl(tokens[key].value)
+  )
+
+  return baseKeys.length > 0
+    ? `no base URL — add one of: ${baseKeys.join(', ')}`
+    : 'no base URL — add a shortcut with a full http(s) URL first'
+}
+
+/**
+ * Builds the settings.fallbackSearchUrl search for input that doesn't resolve
+ * @param template - Search URL with %s or {query} where the input goes
+ * @param text - Raw omnibox input
+ */
+export function buildFallbackSearchUrl(template: string, text: string): string {
+  return template.replace(URL_PATTERNS.SEARCH_PLACEHOLDER, () =>
+    encodeURIComponent(text.trim())
+  )
+}
+
+/**
+ * Maps an omnibox disposition to chrome.search.query's - the search API can't
+ * open background tabs, so both new-tab dispositions open a new tab
+ */
+export function toSearchDisposition(
+  disposition: NavigationDisposition
+): 'CURRENT_TAB' | 'NEW_TAB' {
+  return disposition === 'currentTab' ? 'CURRENT_TAB' : 'NEW_TAB'
+}
@@ -1,27 +1,53 @@
 import type {
   ConstructedUrl,
   DevNavigatorConfig,
+  InputSegment,
   ParsedInput,
+  ParsedToken,
   Token,
   ValidationError
 } from '../types'
-import { VALIDATION_ERRORS } from '../utils/constants'
+import {
+  OMNIBOX_COMMANDS,
+  URL_PATTERNS,
+  VALIDATION_ERRORS
+} from '../utils/constants'
 import {
   createValidationError,
+  encodeFragment,
+  encodePathSegment,
+  encodeQueryString,
   formatDescription,
+  isBaseUrl,
+  isMultiUrl,
+  isSearchTemplate,
   isValidUrl,
-  joinUrlParts
+  joinUrlParts,
+  resolveTokenMap,
+  splitMultiUrl
 } from '../utils/helpers'
+import { expandReferences } from './references'
+import { type TokenizeResult, tokenizeInput } from './tokenizer'
 
 export class URLParser {
   /**
-   * Normalize input by trimming, collapsing spaces, and removing legacy @ prefix
+   * Split input into segments and remove the legacy @ prefix from the first one
    */
-  private normalizeInput(input: string): string {
-    return input
-      .trim() // Remove leading/trailing spaces
-      .replace(/\s+/g, ' ') // Collapse multiple spaces to single space
-      .replace(/^@/, '') // Remove legacy @ prefix if present
+  private tokenize(input: string): TokenizeResult {
+    const result = tokenizeInput(input)
+    const [first] = result.segments
+
+    if (first && !first.quoted && first.text.startsWith('@')) {
+      const text = first.text.slice(1)
+      result.segments = text
+        ? [
+            { ...first, text, column: first.column + 1 },
+            ...result.segments.slice(1)
+          ]
+        : result.segments.slice(1)
+    }
+
+    return result
   }
 
   /**
@@ -47,17 +73,29 @@ export class URLParser {
         tokens: [],
         isValid: false,
         errors,
-        originalInput
+        originalInput,
+        missingPlaceholders: []
       }
     }
 
-    // Normalize input - handle spaces and remove @ prefix
-    const normalizedInput = this.normalizeInput(originalInput)
+    // Split into segments on whitespace, honouring quotes and backslash escapes
+    const { segments, errors: tokenizeErrors } = this.tokenize(input)
+    errors.push(...tokenizeErrors)
 
-    // Split into segments using spaces
-    const segments = normalizedInput
-      .split(' ')
-      .filter(segment => segment.length > 0)
+    // "dev api!" or "dev api !" - a trailing ! forces a new tab
+    const last = segments[segments.length - 1]
+    const forceNewTab =
+      !!last &&
+      !last.quoted &&
+      last.text.endsWith(OMNIBOX_COMMANDS.NEW_TAB_SUFFIX)
+    if (forceNewTab) {
+      const text = last.text.slice(0, -1)
+      if (text) {
+        segments[segments.length - 1] = { ...last, text }
+      } else {
+        segments.pop()
+      }
+    }
 
     if (segments.length === 0) {
       errors.push(
@@ -71,43 +109,222 @@ export class URLParser {
         tokens: [],
         isValid: false,
         errors,
-        originalInput
+        originalInput,
+        missingPlaceholders: []
       }
     }
 
-    // Resolve each segment to tokens
-    // Design: We allow unresolved (dynamic) segments to enable flexible URL construction
-    // where users can mix configured tokens with arbitrary path segments
-    const tokens = segments.map(segment => {
-      const configToken = config.tokens[segment]
+    // "payments: dev api" - a leading "name:" segment targets a profile for this input only
+    let profile = config.activeProfile
+    if (
+      !segments[0].quoted &&
+      segments[0].text.endsWith(OMNIBOX_COMMANDS.PROFILE_SUFFIX)
+    ) {
+      const name = segments.shift()!.text.slice(0, -1)
+
+      if (config.profiles?.[name]) {
+        profile = name
+      } else {
+        errors.push(
+          createValidationError(
+            'profile',
+            `Unknown profile '${name}'`,
+            VALIDATION_ERRORS.UNKNOWN_PROFILE
+          )
+        )
+      }
+    }
+
+    // Active profile keys first, global keys second
+    const tokenMap = resolveTokenMap(config, profile)
+
+    // Search text is taken first, so token keys in "gh foo incident" stay query words
+    const resolvedTokens = this.fillSearchQuery(
+      this.resolveSegments(segments, tokenMap, errors)
+    )
+
+    // "incident 4821" - a multi-URL token is parsed once per member, each member
+    // taking the token's place in the input
+    const multiIndex = resolvedTokens.findIndex(
+      token => token.isResolved && isMultiUrl(token.value)
+    )
+    if (multiIndex !== -1) {
+      const multiToken = resolvedTokens[multiIndex]
+      const expanded = splitMultiUrl(multiToken.value).map(member => {
+        const memberErrors = [...errors]
+        const tokens = this.resolveMember(
+          member,
+          multiToken.key,
+          tokenMap,
+          memberErrors
+        )
+        return { tokens, errors: memberErrors }
+      })
+
+      // Bases are checked once for the whole input rather than per member; the
+      // multi-URL token counts as a base when its members bring their own
+      const memberHasBase = expanded.some(({ tokens }) =>
+        tokens.some(token => this.isBaseToken(token))
+      )
+      const baseKeys = resolvedTokens
+        .filter((token, index) =>
+          index === multiIndex ? memberHasBase : this.isBaseToken(token)
+        )
+        .map(token => token.key)
+      const conflict = this.multipleBasesError(
+        baseKeys,
+        baseKeys.filter(key => key !== multiToken.key)
+      )
+
+      const members = expanded.map(({ tokens, errors: memberErrors }) =>
+        this.validateTokens(
+          [
+            ...resolvedTokens.slice(0, multiIndex),
+            ...tokens,
+            ...resolvedTokens.slice(multiIndex + 1)
+          ],
+          conflict ? [...memberErrors, conflict] : memberErrors,
+          originalInput,
+          false
+        )
+      )
+
+      const memberErrors: ValidationError[] = []
+      const missingPlaceholders: string[] = []
+      members.forEach(member => {
+        member.errors.forEach(error => {
+          if (!memberErrors.some(e => e.message === error.message)) {
+            memberErrors.push(error)
+          }
+        })
+        member.missingPlaceholders.forEach(name => {
+          if (!missingPlaceholders.includes(name)) {
+            missingPlaceholders.push(name)
+          }
+        })
+      })
+
+      return {
+        tokens: resolvedTokens,
+        isValid: memberErrors.length === 0,
+        errors: memberErrors,
+        originalInput,
+        missingPlaceholders,
+        profile,
+        forceNewTab,
+        members: members.map(member => ({ ...member, profile, forceNewTab })),
+        multiToken: multiToken.key
+      }
+    }
+
+    return {
+      ...this.validateTokens(resolvedTokens, errors, originalInput),
+      profile,
+      forceNewTab
+    }
+  }
+
+  /**
+   * Resolves segments against the token map
+   * Design: We allow unresolved (dynamic) segments to enable flexible URL construction
+   * where users can mix configured tokens with arbitrary path segments
+   * Quoted segments are always literal arguments, even if they match a key, and so
+   * is everything after a search token - it becomes the search query
+   * ${key} references in configured values are expanded, with problems added to errors
+   */
+  private resolveSegments(
+    segments: InputSegment[],
+    tokenMap: Record<string, Token>,
+    errors: ValidationError[]
+  ): ParsedToken[] {
+    let inQuery = false
+
+    return segments.map(({ text, quoted }): ParsedToken => {
+      const configToken = quoted || inQuery ? undefined : tokenMap[text]
 
       if (configToken) {
         // Found in config - resolved token with configured value
+        const expanded = expandReferences(configToken.value, tokenMap, [text])
+        errors.push(...expanded.errors)
+        inQuery = this.isSearchToken(expanded.value)
         return {
-          key: segment,
-          value: configToken.value,
+          key: text,
+          value: expanded.value,
           isResolved: true
-        } as const
+        }
       } else {
-        // Not in config - dynamic segment
+        // Not in config - dynamic segment, encoded so it stays one URL component
         return {
-          key: segment,
-          value: segment,
+          key: text,
+          value: this.encodeSegment(text),
           isResolved: false
         }
       }
     })
+  }
 
-    // Validate that we have at least one token that looks like a base URL
-    if (tokens.length > 0) {
-      const hasBaseUrl = tokens.some(
-        token =>
-          token.isResolved &&
-          (token.value.startsWith('http://') ||
-            token.value.startsWith('https://'))
+  /**
+   * Resolves one member of a multi-URL token: an absolute URL, which may use placeholders,
+   * or a token expression like "dev logs"
+   * Members can't be multi-URL tokens themselves.
+   */
+  private resolveMember(
+    member: string,
+    key: string,
+    tokenMap: Record<string, Token>,
+    errors: ValidationError[]
+  ): ParsedToken[] {
+    if (isBaseUrl(member)) {
+      return [{ key, value: member, isResolved: true }]
+    }
+
+    return this.resolveSegments(
+      tokenizeInput(member).segments,
+      tokenMap,
+      errors
+    ).filter(token => !(token.isResolved && isMultiUrl(token.value)))
+  }
+
+  /**
+   * Fills search queries and placeholders, then checks the tokens include a base URL
+   * @param resolvedTokens - Tokens in input order
+   * @param errors - Errors found so far, added to
+   * @param originalInput - Trimmed input
+   * @param checkMultipleBases - false for multi-URL members, checked once for the input
+   */
+  private validateTokens(
+    resolvedTokens: ParsedToken[],
+    errors: ValidationError[],
+    originalInput: string,
+    checkMultipleBases = true
+  ): ParsedInput {
+    // A search token takes everything after it as its query, then dynamic segments
+    // following a templated token fill its placeholders; only the leftovers stay
+    // in the list and become path segments
+    const { tokens, missingPlaceholders } = this.fillPlaceholders(
+      this.fillSearchQuery(resolvedTokens)
+    )
+
+    if (missingPlaceholders.length > 0) {
+      errors.push(
+        createValidationError(
+          'placeholders',
+          `Missing value for: ${missingPlaceholders.join(', ')}`,
+          VALIDATION_ERRORS.MISSING_PLACEHOLDER
+        )
       )
+    }
+
+    // Validate that exactly one token looks like a base URL
+    if (tokens.length > 0) {
+      const baseKeys = tokens
+        .filter(token => this.isBaseToken(token))
+        .map(token => token.key)
+      const conflict = checkMultipleBases
+        ? this.multipleBasesError(baseKeys, baseKeys)
+        : null
 
-      if (!hasBaseUrl) {
+      if (baseKeys.length === 0) {
         errors.push(
           createValidationError(
             'tokens',
@@ -115,6 +332,8 @@ export class URLParser {
             VALIDATION_ERRORS.MISSING_BASE
           )
         )
+      } else if (conflict) {
+        errors.push(conflict)
       }
     } else {
       errors.push(
@@ -130,10 +349,180 @@ export class URLParser {
       tokens,
       isValid: errors.length === 0,
       errors,
-      originalInput
+      originalInput,
+      missingPlaceholders
     }
   }
 
+  /**
+   * Reports more than one base - "dev prod" is ambiguous, so it's reported
+   * rather than building https://dev/https://prod
+   * @param baseKeys - Keys supplying a base URL, in input order
+   * @param switchKeys - Those that are base tokens, which @key can switch to
+   * @returns The error, or null when there's at most one base
+   */
+  private multipleBasesError(
+    baseKeys: string[],
+    switchKeys: string[]
+  ): ValidationError | null {
+    if (baseKeys.length < 2) return null
+
+    const uniqueKeys = baseKeys.filter(
+      (key, index) => baseKeys.indexOf(key) === index
+    )
+    const switchKey = switchKeys[switchKeys.length - 1]
+    const hint = switchKey
+      ? ` To open the current page on ${switchKey}, use ${OMNIBOX_COMMANDS.SWITCH_ENVIRONMENT}${switchKey}`
+      : ''
+
+    return createValidationError(
+      'tokens',
+      `Only one base URL allowed, found ${uniqueKeys.join(', ')}.${hint}`,
+      VALIDATION_ERRORS.MULTIPLE_BASES
+    )
+  }
+
+  private isBaseToken(token: ParsedToken): boolean {
+    return token.isResolved && isBaseUrl(token.value)
+  }
+
+  /**
+   * Search templates fill from the rest of the input; multi-URL tokens fill
+   * each member separately instead
+   */
+  private isSearchToken(value: string): boolean {
+    return isSearchTemplate(value) && !isMultiUrl(value)
+  }
+
+  /**
+   * Percent-encodes a dynamic segment for the part of the URL it will end up in
+   * "feature/foo" stays one path segment (feature%2Ffoo), "user@example.com" becomes
+   * user%40example.com, and query and fragment parts keep their ?, =, & and # syntax.
+   * Segments starting with OMNIBOX_COMMANDS.RAW_PREFIX are inserted as written.
+   * Existing %XX escapes are kept, so pre-encoded input isn't encoded twice.
+   */
+  private encodeSegment(segment: string): string {
+    if (segment.startsWith(OMNIBOX_COMMANDS.RAW_PREFIX)) return segment
+
+    if (URL_PATTERNS.FRAGMENT_SEGMENT.test(segment)) {
+      return `#${encodeFragment(segment.slice(1))}`
+    }
+
+    if (URL_PATTERNS.QUERY_SEGMENT.test(segment)) {
+      return segment.startsWith('?')
+        ? `?${encodeQueryString(segment.slice(1))}`
+        : encodeQueryString(segment)
+    }
+
+    return encodePathSegment(segment)
+  }
+
+  /**
+   * Substitutes the rest of the input into the first search token's %s or {query}
+   * e.g. "gh devnav parser bug" with gh = https://github.com/search?q=%s
+   * → https://github.com/search?q=devnav%20parser%20bug
+   * Following segments are joined as typed, even if they match a token key.
+   * @param tokens - Tokens in input order
+   * @returns Tokens up to and including the search token, with its template filled
+   */
+  private fillSearchQuery(tokens: ParsedToken[]): ParsedToken[] {
+    const index = tokens.findIndex(
+      token => token.isResolved && this.isSearchToken(token.value)
+    )
+    if (index === -1) return tokens
+
+    const searchToken = tokens[index]
+    const query = tokens
+      .slice(index + 1)
+      .map(token => token.key)
+      .join(' ')
+    const value = searchToken.value.replace(
+      URL_PATTERNS.SEARCH_PLACEHOLDER,
+      () => encodeURIComponent(query)
+    )
+
+    return [...tokens.slice(0, index), { ...searchToken, value, query }]
+  }
+
+  /**
+   * Fills {1}, {name} and {name=default} placeholders in resolved token values
+   * from the run of dynamic segments directly following each token.
+   * Positional placeholders are 1-based; named placeholders take the segments
+   * after the highest positional index, in order of first appearance.
+   * @param tokens - Tokens in input order
+   * @returns Tokens with placeholders filled (consumed segments removed) and unfilled names
+   */
+  private fillPlaceholders(tokens: ParsedToken[]): {
+    tokens: ParsedToken[]
+    missingPlaceholders: string[]
+  } {
+    const result: ParsedToken[] = []
+    const missingPlaceholders: string[] = []
+    let index = 0
+
+    while (index < tokens.length) {
+      const token = tokens[index]
+      index++
+
+      const names: string[] = []
+      let positionalCount = 0
+      // "${key}" is a token reference that couldn't be expanded, not a placeholder
+      const isReference = (offset: number) => token.value[offset - 1] === '$'
+
+      token.value.replace(
+        URL_PATTERNS.PLACEHOLDER,
+        (match, name: string, _fallback, offset: number) => {
+          if (isReference(offset)) return match
+          if (/^\d+$/.test(name)) {
+            positionalCount = Math.max(positionalCount, Number(name))
+          } else if (!names.includes(name)) {
+            names.push(name)
+          }
+          return match
+        }
+      )
+
+      if (!token.isResolved || (positionalCount === 0 && names.length === 0)) {
+        result.push(token)
+        continue
+      }
+
+      // Take as many following dynamic segments as there are placeholders
+      const args: string[] = []
+      while (
+        args.length < positionalCount + names.length &&
+        index < tokens.length &&
+        !tokens[index].isResolved
+      ) {
+        args.push(tokens[index].value)
+        index++
+      }
+
+      const value = token.value.replace(
+        URL_PATTERNS.PLACEHOLDER,
+        (match, name: string, fallback: string | undefined, offset: number) => {
+          if (isReference(offset)) return match
+          const position = /^\d+$/.test(name)
+            ? Number(name) - 1
+            : positionalCount + names.indexOf(name)
+          const arg = args[position]
+
+          if (arg !== undefined) return arg
+          if (fallback !== undefined) return fallback
+
+          if (!missingPlaceholders.includes(name)) {
+            missingPlaceholders.push(name)
+          }
+          return match
+        }
+      )
+
+      result.push({ ...token, value, args })
+    }
+
+    return { tokens: result, missingPlaceholders }
+  }
+
   /**
    * Constructs final URL from parsed tokens
    * @param parsed - Result from parse method
@@ -152,10 +541,26 @@ export class URLParser {
       }
     }
 
-    const baseToken = parsed.tokens.find(
-      token =>
-        token.value.startsWith('http://') || token.value.startsWith('https://')
-    )
+    // Multi-URL tokens: one URL per member; content stays the input so the
+    // suggestion re-parses into every member when picked
+    if (parsed.members) {
+      const constructed = parsed.members.map(member =>
+        this.construct(member, _config)
+      )
+      const invalid = constructed.find(member => !member.isValid)
+      if (invalid) {
+        return { ...invalid, content: parsed.originalInput }
+      }
+
+      return {
+        url: constructed[0].url,
+        description: `Open ${constructed.length} tabs: ${constructed.map(member => member.url).join(', ')}`,
+        isValid: true,
+        content: parsed.originalInput
+      }
+    }
+
+    const baseToken = parsed.tokens.find(token => isBaseUrl(token.value))
 
     if (!baseToken) {
       return {
@@ -169,7 +574,7 @@ export class URLParser {
     // Build URL parts starting with the base token
     const urlParts: string[] = [baseToken.value]
 
-    // Add all other tokens as path segments
+    // Add all other tokens in input order, so "api dev users" is the same as "dev api users"
     parsed.tokens.forEach(token => {
       if (token !== baseToken) {
         urlParts.push(token.value)
@@ -189,9 +594,12 @@ export class URLParser {
       }
     }
 
-    // Create description from token keys
+    // Create description from token keys, or from the search for search tokens
+    const searchToken = parsed.tokens.find(token => token.query !== undefined)
     const tokenKeys = parsed.tokens.map(token => token.key)
-    const description = `Navigate to: ${tokenKeys.join(' → ')}`
+    const description = searchToken
+      ? `Search ${searchToken.key} for: ${searchToken.query}`
+      : `Navigate to: ${tokenKeys.join(' → ')}`
 
     return {
       url: finalUrl,
@@ -201,8 +609,110 @@ export class URLParser {
     }
   }
 
+  /**
+   * Constructs every URL an input opens - one per member for multi-URL tokens
+   * @param parsed - Result from parse method
+   * @param config - Current extension configuration
+   * @returns One ConstructedUrl per tab to open
+   */
+  constructAll(
+    parsed: ParsedInput,
+    config: DevNavigatorConfig
+  ): ConstructedUrl[] {
+    return parsed.members
+      ? parsed.members.map(member => this.construct(member, config))
+      : [this.construct(parsed, config)]
+  }
+
+  /**
+   * Finds the configured base token a URL starts with
+   * The longest matching base wins so "https://app.com/eu" beats "https://app.com"
+   * @param url - Absolute URL, e.g. the active tab's URL
+   * @param config - Current extension configuration
+   * @returns Matching token key and base value, or null when no base matches
+   */
+  findBaseToken(
+    url: string,
+    config: DevNavigatorConfig
+  ): { key: string; value: string } | null {
+    let match: { key: string; value: string } | null = null
+    const tokenMap = resolveTokenMap(config)
+
+    Object.keys(tokenMap).forEach(key => {
+      const { value } = expandReferences(tokenMap[key].value, tokenMap, [key])
+      if (!isBaseUrl(value)) return
+
+      const base = value.replace(/\/+$/, '')
+      const rest = url.slice(base.length)
+      const onBoundary = rest === '' || /^[/?#]/.test(rest)
+
+      if (
+        url.startsWith(base) &&
+        onBoundary &&
+        (!match || base.length > match.value.length)
+      ) {
+        match = { key, value: base }
+      }
+    })
+
+    return match
+  }
+
+  /**
+   * Rewrites a URL onto another base token, keeping path, query and hash
+   * e.g. https://localhost:3000/users/42?tab=logs → https://myapp.com/users/42?tab=logs
+   * @param url - Absolute URL to rewrite
+   * @param targetKey - Key of the base token to switch to
+   * @param config - Current extension configuration
+   * @returns ConstructedUrl with the rewritten URL, or the reason it can't be rewritten
+   */
+  switchBase(
+    url: string,
+    targetKey: string,
+    config: DevNavigatorConfig
+  ): ConstructedUrl {
+    const tokenMap = resolveTokenMap(config)
+    const target = tokenMap[targetKey]
+      ? expandReferences(tokenMap[targetKey].value, tokenMap, [targetKey])
+      : null
+
+    if (!target || !isBaseUrl(target.value)) {
+      return {
+        url: '',
+        description: `'${targetKey}' is not a base URL token`,
+        isValid: false,
+        content: url
+      }
+    }
+
+    const current = this.findBaseToken(url, config)
+
+    if (!current) {
+      return {
+        url: '',
+        description: 'Current page does not start with any base URL token',
+        isValid: false,
+        content: url
+      }
+    }
+
+    const switchedUrl =
+      target.value.replace(/\/+$/, '') + url.slice(current.value.length)
+
+    return {
+      url: switchedUrl,
+      description: `Switch ${current.key} → ${targetKey}`,
+      isValid: isValidUrl(switchedUrl),
+      content: switchedUrl
+    }
+  }
+
   /**
    * Builds final URL from parts, handling proper URL joining
+   * Parts like "?tab=logs", "tab=logs" or "#section" (typed, or as token values) go to the
+   * query string or fragment instead of the path. Query parameters from the base URL and
+   * every part are merged, a later value replacing an earlier one with the same name;
+   * the last fragment wins.
    * @param parts - Array of URL parts to join
    * @returns Complete URL string
    */
@@ -215,13 +725,68 @@ export class URLParser {
       return baseUrl
     }
 
+    const base = this.splitUrlPart(baseUrl)
+    const pathParts: string[] = []
+    let query = this.parseQuery(base.query)
+    let fragment = base.fragment
+
+    restParts.forEach(part => {
+      // A bare "tab=logs" segment is a query parameter, not a path
+      const split = /^[^?#/=]+=/.test(part)
+        ? { path: '', query: part, fragment: '' }
+        : this.splitUrlPart(part)
+
+      // Join remaining parts, ensuring they don't start with a slash
+      const path = split.path.replace(/^\/+/, '')
+      if (path) pathParts.push(path)
+
+      // Parameters this part sets replace every earlier pair with their name and
+      // move to its position; repeated names within one part are all kept
+      const params = this.parseQuery(split.query)
+      const names = params.map(param => param.name)
+      query = query.filter(param => !names.includes(param.name)).concat(params)
+      if (split.fragment) fragment = split.fragment
+    })
+
     // Ensure base URL doesn't end with slash for consistent joining
-    const cleanBase = baseUrl.replace(/\/+$/, '')
+    const pathPart = pathParts.join('/')
+    const path = pathPart
+      ? `${base.path.replace(/\/+$/, '')}/${pathPart}`
+      : base.path
+    const queryString = query.map(param => param.pair).join('&')
+
+    return `${path}${queryString ? `?${queryString}` : ''}${fragment ? `#${fragment}` : ''}`
+  }
+
+  /**
+   * Splits a URL or URL part into path, query and fragment (without their ? and # markers)
+   */
+  private splitUrlPart(part: string): {
+    path: string
+    query: string
+    fragment: string
+  } {
+    const hashIndex = part.indexOf('#')
+    const beforeHash = hashIndex === -1 ? part : part.slice(0, hashIndex)
+    const fragment = hashIndex === -1 ? '' : part.slice(hashIndex + 1)
+    const queryIndex = beforeHash.indexOf('?')
 
-    // Join remaining parts, ensuring they don't start with a slash
-    const pathPart = restParts.map(part => part.replace(/^\/+/, '')).join('/')
+    return {
+      path: queryIndex === -1 ? beforeHash : beforeHash.slice(0, queryIndex),
+      query: queryIndex === -1 ? '' : beforeHash.slice(queryIndex + 1),
+      fragment
+    }
+  }
 
-    return pathPart ? `${cleanBase}/${pathPart}` : cleanBase
+  /**
+   * Parses a query string into parameters in order, keeping each "name=value" pair
+   * as written - repeated names such as tag=a&tag=b stay separate pairs
+   */
+  private parseQuery(query: string): { name: string; pair: string }[] {
+    return query
+      .split('&')
+      .filter(pair => pair.length > 0)
+      .map(pair => ({ name: pair.split('=')[0], pair }))
   }
 
   /**
@@ -230,17 +795,9 @@ export class URLParser {
    * @returns boolean indicating if input format is potentially valid
    */
   isValidFormat(input: string): boolean {
-    const normalized = this.normalizeInput(input)
-    if (!normalized) return false
-
-    // Split by spaces and validate each segment
-    const segments = normalized.split(' ').filter(segment => segment.length > 0)
-
-    if (segments.length === 0) return false
-
-    // All segments must be valid token keys (can contain alphanumeric and dashes, but no spaces)
-    return segments.every(
-      segment => segment.length > 0 && /^[a-zA-Z0-9-]+$/.test(segment) // Token keys can contain dashes but no spaces
-    )
+    // Any segment is usable - token keys, query and fragment parts, and dynamic
+    // segments, which are percent-encoded when the URL is built - as long as quotes are closed
+    const { segments, errors } = this.tokenize(input)
+    return errors.length === 0 && segments.length > 0
   }
 }
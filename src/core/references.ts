@@ -0,0 +1,74 @@
+import type { Token, ValidationError } from '../types'
+import { URL_PATTERNS, VALIDATION_ERRORS } from '../utils/constants'
+import { createValidationError } from '../utils/helpers'
+
+export interface ExpandResult {
+  value: string
+  errors: ValidationError[]
+}
+
+/**
+ * Replaces ${key} references in a token value with that token's value, recursively
+ * e.g. "${monitoring}/d/api" with monitoring = "${grafana}/dashboards" and
+ * grafana = "https://grafana.acme.com" → https://grafana.acme.com/dashboards/d/api
+ * Cycles and unknown keys are reported, and the reference is left as written.
+ * @param value - Token value to expand
+ * @param tokens - Token map references resolve against, from resolveTokenMap
+ * @param path - Keys being expanded, outermost first - pass the value's own key
+ * @returns Expanded value and any errors
+ */
+export function expandReferences(
+  value: string,
+  tokens: Record<string, Token>,
+  path: string[] = []
+): ExpandResult {
+  const errors: ValidationError[] = []
+
+  const expanded = value.replace(
+    URL_PATTERNS.TOKEN_REFERENCE,
+    (match, key: string) => {
+      if (path.includes(key)) {
+        const cycle = [...path.slice(path.indexOf(key)), key]
+        errors.push(
+          createValidationError(
+            'tokens',
+            `Token reference cycle: ${cycle.join(' → ')}`,
+            VALIDATION_ERRORS.REFERENCE_CYCLE
+          )
+        )
+        return match
+      }
+
+      const token = tokens[key]
+      if (!token) {
+        errors.push(
+          createValidationError(
+            'tokens',
+            `Unknown token reference ${match}`,
+            VALIDATION_ERRORS.UNKNOWN_REFERENCE
+          )
+        )
+        return match
+      }
+
+      const inner = expandReferences(token.value, tokens, [...path, key])
+      errors.push(...inner.errors)
+      return inner.value
+    }
+  )
+
+  return { value: expanded, errors }
+}
+
+/**
+ * Lists the keys a token value references directly, in order of first appearance
+ * @param value - Token value
+ */
+export function findReferencedKeys(value: string): string[] {
+  const keys: string[] = []
+  value.replace(URL_PATTERNS.TOKEN_REFERENCE, (match, key: string) => {
+    if (!keys.includes(key)) keys.push(key)
+    return match
+  })
+  return keys
+}
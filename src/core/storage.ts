@@ -1,46 +1,85 @@
-import type { ConfigExport, DevNavigatorConfig } from '../types'
-import type { IStorageManager } from '../types/storage'
+import type {
+  ConfigBackup,
+  ConfigExport,
+  DevNavigatorConfig,
+  ImportMode,
+  NavigationDisposition,
+  StorageUsage,
+  TabGroupOptions
+} from '../types'
+import type {
+  ConfigChangeListener,
+  IStorageManager
+} from '../types/storage'
 import { DEFAULT_CONFIG, STORAGE_KEYS } from '../utils/constants'
-import { getCurrentTimestamp } from '../utils/helpers'
+import { formatBytes, getCurrentTimestamp } from '../utils/helpers'
+import { ConfigStore } from './config-store'
+import { type LegacyConfig, migrateConfig } from './migrations'
+import { SubscriptionManager } from './subscription'
+import { applyImport, createExport, parseImport } from './transfer'
 
 export class StorageManager implements IStorageManager {
-  private storage: chrome.storage.StorageArea
+  private store: ConfigStore
+  private subscription: SubscriptionManager
 
   constructor() {
-    // Use chrome.storage.sync for syncing across devices
-    this.storage = chrome.storage.sync
+    // Syncs across devices via chrome.storage.sync, chunked past the per-item quota
+    this.store = new ConfigStore()
+    this.subscription = new SubscriptionManager()
   }
 
   /**
    * Retrieves configuration from Chrome storage
+   * Read failures are thrown rather than answered with defaults, which the next
+   * write would save over the real config. Chunks another device is still
+   * syncing are read again on the next onConfigChanged event.
    * @returns Promise with current configuration or default if not found
+   * @throws Error when the stored config can't be read
    */
   async getConfig(): Promise<DevNavigatorConfig> {
-    try {
-      const result = await this.storage.get(STORAGE_KEYS.CONFIG)
-      const stored = result[STORAGE_KEYS.CONFIG]
-
-      if (stored && this.isValidConfig(stored)) {
-        // Merge with defaults to ensure all properties exist - handles schema evolution
-        // Nested merge required for settings to avoid overwriting entire settings object
-        // This provides backward compatibility when we add new default properties
-        return {
-          ...DEFAULT_CONFIG,
-          ...stored,
-          settings: {
-            ...DEFAULT_CONFIG.settings,
-            ...stored.settings
-          }
-        }
+    const stored = await this.store.read()
+
+    if (stored && this.isStoredConfig(stored)) {
+      // Upgrade older schemas; the migration chain also merges in new defaults
+      const { config, fromVersion, applied } = migrateConfig(stored)
+
+      if (applied.length > 0) {
+        await this.backupConfig(stored, fromVersion)
+        await this.saveConfig(config)
       }
 
-      // No valid config found, return and save defaults
-      await this.saveConfig(DEFAULT_CONFIG)
-      return DEFAULT_CONFIG
-    } catch (error) {
-      console.error('Failed to get config from storage:', error)
-      return DEFAULT_CONFIG
+      return await this.withSubscribedTokens(config)
     }
+
+    // No valid config found, save and return a copy of the defaults
+    // (callers edit it in place)
+    const defaults = structuredClone(DEFAULT_CONFIG)
+    await this.saveConfig(defaults)
+    return defaults
+  }
+
+  /**
+   * Layers the cached tokens of the subscribed team config under the config's own
+   */
+  private async withSubscribedTokens(
+    config: DevNavigatorConfig
+  ): Promise<DevNavigatorConfig> {
+    const url = config.settings.subscribeUrl
+    if (!url) return config
+
+    const state = await this.subscription.getState()
+    if (!state || state.url !== url) return config
+
+    return { ...config, subscribedTokens: state.tokens }
+  }
+
+  /**
+   * Config as it is stored - subscribed tokens are re-fetched, never saved
+   */
+  private toStored(config: DevNavigatorConfig): DevNavigatorConfig {
+    const stored = { ...config }
+    delete stored.subscribedTokens
+    return stored
   }
 
   /**
@@ -50,53 +89,90 @@ export class StorageManager implements IStorageManager {
   async saveConfig(config: DevNavigatorConfig): Promise<void> {
     try {
       const configToSave = {
-        ...config,
+        ...this.toStored(config),
         version: config.version || DEFAULT_CONFIG.version
       }
 
-      await this.storage.set({
-        [STORAGE_KEYS.CONFIG]: configToSave
-      })
+      const usage = await this.store.write(configToSave)
+
+      if (usage.area === 'local') {
+        console.warn(
+          `Config is ${formatBytes(usage.bytesUsed)}, over the sync quota - saved on this device only`
+        )
+      }
     } catch (error) {
       console.error('Failed to save config to storage:', error)
       throw new Error('Failed to save configuration')
     }
   }
 
+  /**
+   * Reports how much of the chrome.storage.sync quota a config uses
+   * @param config - Configuration to measure
+   * @returns Usage, with area 'local' when it no longer fits in sync
+   */
+  getStorageUsage(config: DevNavigatorConfig): StorageUsage {
+    return this.store.getUsage(this.toStored(config))
+  }
+
   /**
    * Exports current configuration for sharing
    * @returns Promise with exportable configuration
    */
   async exportConfig(): Promise<ConfigExport> {
-    const config = await this.getConfig()
-
-    return {
-      devNavigator: {
-        version: config.version,
-        exported: getCurrentTimestamp(),
-        tokens: { ...config.tokens }
-      }
-    }
+    return createExport(await this.getConfig())
   }
 
   /**
-   * Imports and validates configuration from export format
+   * Imports and validates configuration from any supported export layout
    * @param exported - Exported configuration to import
+   * @param mode - merge keeps tokens missing from the export, replace drops them
    */
-  async importConfig(exported: ConfigExport): Promise<void> {
-    if (!this.isValidExport(exported)) {
-      throw new Error('Invalid configuration format')
+  async importConfig(
+    exported: ConfigExport,
+    mode: ImportMode = 'replace'
+  ): Promise<void> {
+    // Exported tokens may come from an older version - parseImport migrates them
+    const result = parseImport(exported)
+    if (!result.isValid || !result.config) {
+      throw new Error(
+        `Invalid configuration format: ${result.errors.join('; ')}`
+      )
     }
 
     const currentConfig = await this.getConfig()
+    await this.saveConfig(applyImport(currentConfig, result.config, mode))
+  }
+
+  /**
+   * Retrieves the config as it was before the last migration
+   * @returns Promise with the backup, or null if no migration has run
+   */
+  async getConfigBackup(): Promise<ConfigBackup | null> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.CONFIG_BACKUP)
+    return result?.[STORAGE_KEYS.CONFIG_BACKUP] || null
+  }
 
-    const newConfig: DevNavigatorConfig = {
-      ...currentConfig,
-      tokens: { ...exported.devNavigator.tokens },
-      version: exported.devNavigator.version
+  /**
+   * Stores the pre-migration config in local storage so a bad migration can be recovered
+   * @param stored - Config as read from storage
+   * @param fromVersion - Version the config was at
+   */
+  private async backupConfig(
+    stored: LegacyConfig,
+    fromVersion: string
+  ): Promise<void> {
+    const backup: ConfigBackup = {
+      fromVersion,
+      backedUp: getCurrentTimestamp(),
+      config: stored
     }
 
-    await this.saveConfig(newConfig)
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.CONFIG_BACKUP]: backup })
+    } catch (error) {
+      console.error('Failed to back up config before migration:', error)
+    }
   }
 
   /**
@@ -107,23 +183,107 @@ export class StorageManager implements IStorageManager {
   }
 
   /**
-   * Adds or updates a token
+   * Adds or updates a token, keeping any other fields stored on it
    * @param key - Token key
    * @param value - Token value
+   * @param profile - Profile to edit; global tokens when omitted
+   */
+  async setToken(key: string, value: string, profile?: string): Promise<void> {
+    const config = await this.getConfig()
+    const tokens = this.getTokenMap(config, profile)
+    tokens[key] = { ...tokens[key], value }
+    await this.saveConfig(config)
+  }
+
+  /**
+   * Sets or clears the open mode of an existing token
+   * @param key - Token key
+   * @param disposition - How to open the token, or undefined for settings.defaultDisposition
+   * @param profile - Profile to edit; global tokens when omitted
+   */
+  async setTokenDisposition(
+    key: string,
+    disposition: NavigationDisposition | undefined,
+    profile?: string
+  ): Promise<void> {
+    const config = await this.getConfig()
+    const tokens = this.getTokenMap(config, profile)
+
+    if (!tokens[key]) {
+      throw new Error(`Token '${key}' does not exist`)
+    }
+
+    const { disposition: _previous, ...token } = tokens[key]
+    tokens[key] = disposition ? { ...token, disposition } : token
+    await this.saveConfig(config)
+  }
+
+  /**
+   * Sets or clears the tab group a multi-URL token opens its tabs in
+   * @param key - Token key
+   * @param group - Group title and color, or undefined to open ungrouped tabs
+   * @param profile - Profile to edit; global tokens when omitted
    */
-  async setToken(key: string, value: string): Promise<void> {
+  async setTokenGroup(
+    key: string,
+    group: TabGroupOptions | undefined,
+    profile?: string
+  ): Promise<void> {
     const config = await this.getConfig()
-    config.tokens[key] = { value }
+    const tokens = this.getTokenMap(config, profile)
+
+    if (!tokens[key]) {
+      throw new Error(`Token '${key}' does not exist`)
+    }
+
+    const { group: _previous, ...token } = tokens[key]
+    tokens[key] = group ? { ...token, group } : token
     await this.saveConfig(config)
   }
 
   /**
    * Removes a token
    * @param key - Token key to remove
+   * @param profile - Profile to edit; global tokens when omitted
+   */
+  async removeToken(key: string, profile?: string): Promise<void> {
+    const config = await this.getConfig()
+    delete this.getTokenMap(config, profile)[key]
+    await this.saveConfig(config)
+  }
+
+  /**
+   * Renames a token in place, keeping its value, fields and position
+   * @param oldKey - Current token key
+   * @param newKey - New token key
+   * @param profile - Profile to edit; global tokens when omitted
    */
-  async removeToken(key: string): Promise<void> {
+  async renameToken(
+    oldKey: string,
+    newKey: string,
+    profile?: string
+  ): Promise<void> {
     const config = await this.getConfig()
-    delete config.tokens[key]
+    const tokens = this.getTokenMap(config, profile)
+
+    if (!tokens[oldKey]) {
+      throw new Error(`Token '${oldKey}' does not exist`)
+    }
+    if (oldKey !== newKey && tokens[newKey]) {
+      throw new Error(`Token '${newKey}' already exists`)
+    }
+
+    // Rebuild so the renamed token keeps its place in the table
+    const renamed: typeof tokens = {}
+    Object.keys(tokens).forEach(key => {
+      renamed[key === oldKey ? newKey : key] = tokens[key]
+    })
+
+    if (profile && config.profiles?.[profile]) {
+      config.profiles[profile].tokens = renamed
+    } else {
+      config.tokens = renamed
+    }
     await this.saveConfig(config)
   }
 
@@ -140,50 +300,62 @@ export class StorageManager implements IStorageManager {
   }
 
   /**
-   * Validates if an object is a valid DevNavigatorConfig
-   * @param obj - Object to validate
-   * @returns boolean indicating validity
+   * Token map a profile edits, or the global map
+   * @throws Error when the profile does not exist
    */
-  private isValidConfig(obj: any): obj is DevNavigatorConfig {
-    return (
-      obj &&
-      typeof obj === 'object' &&
-      typeof obj.tokens === 'object' &&
-      typeof obj.settings === 'object' &&
-      typeof obj.version === 'string'
-    )
+  private getTokenMap(
+    config: DevNavigatorConfig,
+    profile?: string
+  ): DevNavigatorConfig['tokens'] {
+    if (!profile) return config.tokens
+
+    const target = config.profiles?.[profile]
+    if (!target) {
+      throw new Error(`Profile '${profile}' does not exist`)
+    }
+    return target.tokens
   }
 
   /**
-   * Validates if an object is a valid export format
-   * @param obj - Object to validate
-   * @returns boolean indicating validity
+   * Checks if a stored object is a config of any schema version the migrations can upgrade
+   * @param obj - Object to check
+   * @returns boolean indicating the object can be migrated
    */
-  private isValidExport(obj: any): obj is ConfigExport {
-    return (
-      obj &&
-      typeof obj === 'object' &&
-      obj.devNavigator &&
-      typeof obj.devNavigator === 'object' &&
-      typeof obj.devNavigator.version === 'string' &&
-      typeof obj.devNavigator.tokens === 'object'
-    )
+  private isStoredConfig(obj: any): obj is LegacyConfig {
+    return obj && typeof obj === 'object' && typeof obj.tokens === 'object'
   }
 
   /**
-   * Listens for storage changes and executes callback
-   * Filters for 'sync' area to handle cross-device synchronization
-   * @param callback - Function to call when storage changes
+   * Listens for config changes from any context or device
+   * Covers sync (cross-device), the local over-quota fallback and refreshes
+   * of the subscribed team config
+   * @param listener - Called with the migrated config after each change
+   * @returns Function that removes the listener
    */
-  onConfigChanged(callback: (config: DevNavigatorConfig) => void): void {
-    chrome.storage.onChanged.addListener((changes, areaName) => {
-      // Only handle sync area changes to avoid local storage noise
-      if (areaName === 'sync' && changes[STORAGE_KEYS.CONFIG]) {
-        const newValue = changes[STORAGE_KEYS.CONFIG].newValue
-        if (newValue && this.isValidConfig(newValue)) {
-          callback(newValue)
-        }
+  onConfigChanged(listener: ConfigChangeListener): () => void {
+    const handler = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName !== 'sync' && areaName !== 'local') return
+
+      // Chunked configs change several keys at once - re-read the whole config
+      // rather than trusting a single newValue
+      if (
+        !Object.keys(changes).some(
+          key =>
+            this.store.isConfigKey(key) || key === STORAGE_KEYS.SUBSCRIPTION
+        )
+      ) {
+        return
       }
-    })
+
+      this.getConfig()
+        .then(config => listener({ config, areaName }))
+        .catch(error => console.error('Failed to reload config:', error))
+    }
+
+    chrome.storage.onChanged.addListener(handler)
+    return () => chrome.storage.onChanged.removeListener(handler)
   }
 }
@@ -0,0 +1,85 @@
+import type { SubscriptionState } from '../types'
+import { STORAGE_KEYS, SUBSCRIPTION } from '../utils/constants'
+import { parseImport } from './transfer'
+
+export class SubscriptionManager {
+  private storage: chrome.storage.StorageArea
+
+  constructor() {
+    // Each device fetches the team config itself, so the cache is never synced
+    this.storage = chrome.storage.local
+  }
+
+  /**
+   * Reads the cached result of the last fetch
+   * @returns Cached state, or null if nothing has been fetched
+   */
+  async getState(): Promise<SubscriptionState | null> {
+    try {
+      const result = await this.storage.get(STORAGE_KEYS.SUBSCRIPTION)
+      return result?.[STORAGE_KEYS.SUBSCRIPTION] || null
+    } catch (error) {
+      console.error('Failed to load subscription state:', error)
+      return null
+    }
+  }
+
+  /**
+   * Fetches the subscribed config and caches its global tokens
+   * Accepts any layout the importer understands. A failed fetch keeps the
+   * tokens from the last successful one and records the error.
+   * @param url - JSON config URL from settings.subscribeUrl
+   * @returns The new cached state
+   */
+  async refresh(url: string): Promise<SubscriptionState> {
+    const previous = await this.getState()
+    const kept = previous && previous.url === url ? previous : null
+    const state: SubscriptionState = {
+      url,
+      tokens: kept ? kept.tokens : {},
+      lastSync: kept ? kept.lastSync : null,
+      lastAttempt: Date.now(),
+      error: null
+    }
+
+    try {
+      const response = await fetch(url, { cache: 'no-store' })
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`)
+      }
+
+      const result = parseImport(await response.json())
+      if (!result.isValid || !result.config) {
+        throw new Error(result.errors.join('; '))
+      }
+
+      state.tokens = result.config.devNavigator.tokens
+      state.lastSync = state.lastAttempt
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : String(error)
+    }
+
+    await this.storage.set({ [STORAGE_KEYS.SUBSCRIPTION]: state })
+    return state
+  }
+
+  /**
+   * Whether the cache is for another URL or older than the refresh interval
+   * @param state - Cached state
+   * @param url - Currently subscribed URL
+   */
+  isStale(state: SubscriptionState | null, url: string): boolean {
+    return (
+      !state ||
+      state.url !== url ||
+      Date.now() - state.lastAttempt >= SUBSCRIPTION.REFRESH_MINUTES * 60 * 1000
+    )
+  }
+
+  /**
+   * Drops the cached tokens after unsubscribing
+   */
+  async clear(): Promise<void> {
+    await this.storage.remove(STORAGE_KEYS.SUBSCRIPTION)
+  }
+}
@@ -0,0 +1,82 @@
+import type { InputSegment, ValidationError } from '../types'
+import { VALIDATION_ERRORS } from '../utils/constants'
+import { createValidationError } from '../utils/helpers'
+
+export interface TokenizeResult {
+  segments: InputSegment[]
+  errors: ValidationError[]
+}
+
+/**
+ * Splits omnibox input into segments on whitespace, shell style
+ * - "login bug" and 'login bug' keep spaces inside one segment; quotes can sit
+ *   mid-segment (q="login bug" is one segment, q=login bug)
+ * - A backslash escapes the next character outside quotes and inside double
+ *   quotes; single quotes are fully literal
+ * An unterminated quote is reported with the column it opened at, and the rest
+ * of the input still becomes that segment so suggestions keep working.
+ * @param input - Raw omnibox input
+ * @returns Non-empty segments in input order, and any errors
+ */
+export function tokenizeInput(input: string): TokenizeResult {
+  const segments: InputSegment[] = []
+  const errors: ValidationError[] = []
+  let current: InputSegment | null = null
+  let quote: string | null = null
+  let quoteColumn = 0
+
+  const finishSegment = () => {
+    if (current?.text) segments.push(current)
+    current = null
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quote && current) {
+      if (char === quote) {
+        quote = null
+      } else if (char === '\\' && quote === '"' && i + 1 < input.length) {
+        i++
+        current.text += input[i]
+      } else {
+        current.text += char
+      }
+      continue
+    }
+
+    if (/\s/.test(char)) {
+      finishSegment()
+      continue
+    }
+
+    if (!current) {
+      current = { text: '', column: i + 1, quoted: false }
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char
+      quoteColumn = i + 1
+      current.quoted = true
+    } else if (char === '\\' && i + 1 < input.length) {
+      i++
+      current.text += input[i]
+    } else {
+      current.text += char
+    }
+  }
+
+  if (quote) {
+    errors.push(
+      createValidationError(
+        'input',
+        `Unterminated ${quote} quote at column ${quoteColumn}`,
+        VALIDATION_ERRORS.UNTERMINATED_QUOTE,
+        quoteColumn
+      )
+    )
+  }
+  finishSegment()
+
+  return { segments, errors }
+}
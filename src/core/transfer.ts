@@ -0,0 +1,456 @@
+import type {
+  ConfigExport,
+  DevNavigatorConfig,
+  FallbackAction,
+  ImportMode,
+  ImportPreview,
+  ImportValidationResult,
+  NavigationDisposition,
+  Profile,
+  Token
+} from '../types'
+import { EXPORT_FORMAT } from '../utils/constants'
+import {
+  escapeHtml,
+  getCurrentTimestamp,
+  isBaseUrl,
+  isObject,
+  isValidSearchUrl,
+  isValidTokenKey,
+  isValidUrl
+} from '../utils/helpers'
+import {
+  CURRENT_CONFIG_VERSION,
+  type LegacyConfig,
+  migrateConfig
+} from './migrations'
+
+// Values an imported settings.defaultDisposition and settings.fallback may take
+const DISPOSITIONS: NavigationDisposition[] = [
+  'currentTab',
+  'newForegroundTab',
+  'newBackgroundTab'
+]
+const FALLBACKS: FallbackAction[] = [
+  'search',
+  'newToken',
+  'notify',
+  'defaultSearch'
+]
+
+/**
+ * Builds the export file for a config
+ * @param config - Configuration to export
+ * @returns Export in the current EXPORT_FORMAT
+ */
+export function createExport(config: DevNavigatorConfig): ConfigExport {
+  return {
+    devNavigator: {
+      format: EXPORT_FORMAT,
+      version: config.version,
+      exported: getCurrentTimestamp(),
+      tokens: { ...config.tokens },
+      profiles: { ...config.profiles },
+      settings: { ...config.settings }
+    }
+  }
+}
+
+/**
+ * Reads an import file in any supported layout and validates its tokens
+ * Accepts the current format, the older StorageManager export
+ * ({ devNavigator: { version, exported, tokens } }), the older side panel
+ * export ({ version, exportDate, config }) and a bare config ({ tokens, ... })
+ * @param data - Parsed JSON from the import file
+ * @returns The export upgraded to the current format and schema, or the reasons it was rejected
+ */
+export function parseImport(data: unknown): ImportValidationResult {
+  const legacy = readLegacyExport(data)
+  if (!legacy) {
+    return {
+      isValid: false,
+      errors: ['Not a Dev Navigator configuration file']
+    }
+  }
+
+  const errors = validateTokens(legacy.config.tokens, '')
+  Object.entries(legacy.config.profiles || {}).forEach(([name, profile]) => {
+    if (!isValidTokenKey(name)) {
+      errors.push(
+        `Profile '${name}': name can't contain spaces or URL syntax characters`
+      )
+    }
+    errors.push(...validateTokens(profile?.tokens, `${name}:`))
+  })
+  errors.push(...validateSettings(legacy.config.settings))
+
+  if (errors.length > 0) {
+    return { isValid: false, errors }
+  }
+
+  // Older files may hold older token shapes - run them through the chain
+  const { config } = migrateConfig(legacy.config)
+
+  return {
+    isValid: true,
+    errors: [],
+    config: {
+      devNavigator: {
+        format: EXPORT_FORMAT,
+        version: config.version,
+        exported: legacy.exported,
+        tokens: config.tokens,
+        profiles: config.profiles,
+        settings: legacy.config.settings ? config.settings : undefined
+      }
+    }
+  }
+}
+
+/**
+ * Applies an import to the current config without saving it
+ * Merge keeps current tokens the file doesn't mention; replace drops them.
+ * Settings in the file are only applied when replacing.
+ * @param current - Current configuration
+ * @param exported - Validated export from parseImport
+ * @param mode - How to combine the two
+ * @returns The config the import would produce
+ */
+export function applyImport(
+  current: DevNavigatorConfig,
+  exported: ConfigExport,
+  mode: ImportMode
+): DevNavigatorConfig {
+  const incoming = exported.devNavigator
+  const profiles: Record<string, Profile> = {}
+
+  if (mode === 'merge') {
+    Object.entries(current.profiles || {}).forEach(([name, profile]) => {
+      profiles[name] = { tokens: { ...profile.tokens } }
+    })
+  }
+
+  Object.entries(incoming.profiles || {}).forEach(([name, profile]) => {
+    profiles[name] = {
+      tokens: { ...profiles[name]?.tokens, ...profile.tokens }
+    }
+  })
+
+  const activeProfile =
+    current.activeProfile && profiles[current.activeProfile]
+      ? current.activeProfile
+      : undefined
+
+  return {
+    ...current,
+    tokens:
+      mode === 'merge'
+        ? { ...current.tokens, ...incoming.tokens }
+        : { ...incoming.tokens },
+    profiles,
+    activeProfile,
+    settings:
+      mode === 'replace' && incoming.settings
+        ? { ...current.settings, ...incoming.settings }
+        : current.settings
+  }
+}
+
+/**
+ * Lists the tokens an import would add, change or remove
+ * @param current - Current configuration
+ * @param next - Config returned by applyImport
+ * @returns Token keys by kind of change, profile tokens as "profile:key"
+ */
+export function previewImport(
+  current: DevNavigatorConfig,
+  next: DevNavigatorConfig
+): ImportPreview {
+  const before = flattenTokens(current)
+  const after = flattenTokens(next)
+
+  return {
+    added: Object.keys(after).filter(key => !(key in before)),
+    changed: Object.keys(after).filter(
+      key => key in before && before[key].value !== after[key].value
+    ),
+    removed: Object.keys(before).filter(key => !(key in after))
+  }
+}
+
+/**
+ * Formats tokens as a Netscape bookmark file that any browser can import
+ * Only absolute URLs are included - relative path tokens aren't navigable on their own
+ * @param tokens - Tokens to export
+ * @returns HTML bookmark file with a "DevNav" folder
+ */
+export function exportAsBookmarksHtml(tokens: Record<string, Token>): string {
+  const links = Object.entries(tokens)
+    .filter(([, token]) => isBaseUrl(token.value))
+    .map(
+      ([key, token]) =>
+        `        <DT><A HREF="${escapeHtml(token.value)}">${escapeHtml(key)}</A>`
+    )
+
+  return [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    '    <DT><H3>DevNav</H3>',
+    '    <DL><p>',
+    ...links,
+    '    </DL><p>',
+    '</DL><p>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Formats tokens as a Markdown table for wikis and onboarding docs
+ * @param tokens - Tokens to export
+ */
+export function exportAsMarkdown(tokens: Record<string, Token>): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|')
+
+  return [
+    '| Shortcut | Value |',
+    '| --- | --- |',
+    ...Object.entries(tokens).map(
+      ([key, token]) => `| \`${cell(key)}\` | ${cell(token.value)} |`
+    ),
+    ''
+  ].join('\n')
+}
+
+/**
+ * Formats tokens as CSV with a key,value header - parseCsvImport reads it back
+ * @param tokens - Tokens to export
+ */
+export function exportAsCsv(tokens: Record<string, Token>): string {
+  const field = (text: string) =>
+    /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+
+  return [
+    'key,value',
+    ...Object.entries(tokens).map(
+      ([key, token]) => `${field(key)},${field(token.value)}`
+    ),
+    ''
+  ].join('\n')
+}
+
+/**
+ * Reads key,value rows from a CSV file into an import
+ * The header row is optional; quoted fields may contain commas, quotes and newlines
+ * @param text - CSV file contents
+ * @returns Validated export with the rows as global tokens, or the reasons it was rejected
+ */
+export function parseCsvImport(text: string): ImportValidationResult {
+  const rows = parseCsvRows(text).filter(row => row.some(field => field.trim()))
+  if (rows[0]?.[0].trim().toLowerCase() === 'key') rows.shift()
+
+  const errors: string[] = []
+  const tokens: Record<string, Token> = {}
+
+  rows.forEach((row, index) => {
+    if (row.length !== 2) {
+      errors.push(`Row ${index + 1}: expected key and value`)
+      return
+    }
+    tokens[row[0].trim()] = { value: row[1].trim() }
+  })
+
+  if (errors.length > 0) return { isValid: false, errors }
+  if (rows.length === 0) return { isValid: false, errors: ['No tokens found'] }
+
+  return parseImport({
+    devNavigator: {
+      version: CURRENT_CONFIG_VERSION,
+      exported: getCurrentTimestamp(),
+      tokens
+    }
+  })
+}
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180 quoting)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Normalizes any supported file layout to a legacy config plus export date
+ */
+function readLegacyExport(
+  data: unknown
+): { config: LegacyConfig; exported: string } | null {
+  if (!isObject(data)) return null
+
+  if (isObject(data.devNavigator) && isObject(data.devNavigator.tokens)) {
+    const { version, exported, tokens, profiles, settings } = data.devNavigator
+    return {
+      config: { tokens, profiles, settings, version } as LegacyConfig,
+      exported: typeof exported === 'string' ? exported : getCurrentTimestamp()
+    }
+  }
+
+  if (isObject(data.config) && isObject(data.config.tokens)) {
+    return {
+      config: data.config as LegacyConfig,
+      exported:
+        typeof data.exportDate === 'string'
+          ? data.exportDate
+          : getCurrentTimestamp()
+    }
+  }
+
+  if (isObject(data.tokens)) {
+    return { config: data as LegacyConfig, exported: getCurrentTimestamp() }
+  }
+
+  return null
+}
+
+/**
+ * Checks every token has a usable key and a non-empty string value
+ * Accepts the legacy string and { type, value } shapes the migrations understand
+ */
+function validateTokens(tokens: unknown, prefix: string): string[] {
+  if (tokens === undefined) return []
+  if (!isObject(tokens)) return [`${prefix || 'Tokens'}: expected an object`]
+
+  const errors: string[] = []
+  Object.entries(tokens as Record<string, unknown>).forEach(([key, token]) => {
+    const value =
+      typeof token === 'string'
+        ? token
+        : isObject(token)
+          ? (token as Partial<Token>).value
+          : undefined
+
+    if (!isValidTokenKey(key)) {
+      errors.push(
+        `Token '${prefix}${key}': key can't contain spaces or URL syntax characters`
+      )
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`Token '${prefix}${key}': value must be a non-empty string`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Checks the settings in a file would work once applied - a bad fallback or
+ * search URL would otherwise break every omnibox suggestion
+ * Settings the file leaves out keep their current or default value.
+ */
+function validateSettings(settings: unknown): string[] {
+  if (settings === undefined) return []
+  if (!isObject(settings)) return ['Settings: expected an object']
+
+  const errors: string[] = []
+  const {
+    trigger,
+    defaultDisposition,
+    showDescriptions,
+    subscribeUrl,
+    fallback,
+    fallbackSearchUrl
+  } = settings
+
+  if (trigger !== undefined && (typeof trigger !== 'string' || !trigger)) {
+    errors.push('Settings: trigger must be a non-empty string')
+  }
+  if (
+    defaultDisposition !== undefined &&
+    !DISPOSITIONS.includes(defaultDisposition as NavigationDisposition)
+  ) {
+    errors.push(
+      `Settings: defaultDisposition must be one of ${DISPOSITIONS.join(', ')}`
+    )
+  }
+  if (showDescriptions !== undefined && typeof showDescriptions !== 'boolean') {
+    errors.push('Settings: showDescriptions must be true or false')
+  }
+  if (
+    subscribeUrl !== undefined &&
+    subscribeUrl !== '' &&
+    !(typeof subscribeUrl === 'string' && isValidUrl(subscribeUrl))
+  ) {
+    errors.push('Settings: subscribeUrl must be a valid http(s) URL')
+  }
+  if (
+    fallback !== undefined &&
+    !FALLBACKS.includes(fallback as FallbackAction)
+  ) {
+    errors.push(`Settings: fallback must be one of ${FALLBACKS.join(', ')}`)
+  }
+  if (
+    fallbackSearchUrl !== undefined &&
+    !(
+      typeof fallbackSearchUrl === 'string' &&
+      isValidSearchUrl(fallbackSearchUrl)
+    )
+  ) {
+    errors.push(
+      'Settings: fallbackSearchUrl must be a valid http(s) URL containing %s'
+    )
+  }
+
+  return errors
+}
+
+function flattenTokens(config: DevNavigatorConfig): Record<string, Token> {
+  const flat: Record<string, Token> = { ...config.tokens }
+
+  Object.entries(config.profiles || {}).forEach(([name, profile]) => {
+    Object.entries(profile.tokens).forEach(([key, token]) => {
+      flat[`${name}:${key}`] = token
+    })
+  })
+
+  return flat
+}
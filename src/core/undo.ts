@@ -0,0 +1,88 @@
+import type {
+  ConfigSnapshot,
+  DevNavigatorConfig,
+  UndoStacks
+} from '../types'
+import { STORAGE_KEYS, UNDO } from '../utils/constants'
+
+export class UndoHistory {
+  private storage: chrome.storage.StorageArea
+
+  constructor() {
+    // Session storage outlives the side panel but not the browser session
+    this.storage = chrome.storage.session || chrome.storage.local
+  }
+
+  /**
+   * Records the config as it was before a change, clearing the redo stack
+   * @param label - What the change did, e.g. "Deleted 'prod'"
+   * @param before - Config before the change
+   */
+  async record(label: string, before: DevNavigatorConfig): Promise<void> {
+    const stacks = await this.load()
+    stacks.undo.push(this.snapshot(label, before))
+    stacks.redo = []
+    await this.save(stacks)
+  }
+
+  /**
+   * Steps back one change
+   * @param current - Config as it is now, kept for redo
+   * @returns Snapshot to restore, or null when there is nothing to undo
+   */
+  async undo(current: DevNavigatorConfig): Promise<ConfigSnapshot | null> {
+    const stacks = await this.load()
+    const snapshot = stacks.undo.pop()
+    if (!snapshot) return null
+
+    stacks.redo.push(this.snapshot(snapshot.label, current))
+    await this.save(stacks)
+    return snapshot
+  }
+
+  /**
+   * Re-applies the last undone change
+   * @param current - Config as it is now, kept for undo
+   * @returns Snapshot to restore, or null when there is nothing to redo
+   */
+  async redo(current: DevNavigatorConfig): Promise<ConfigSnapshot | null> {
+    const stacks = await this.load()
+    const snapshot = stacks.redo.pop()
+    if (!snapshot) return null
+
+    stacks.undo.push(this.snapshot(snapshot.label, current))
+    await this.save(stacks)
+    return snapshot
+  }
+
+  /**
+   * Reads both stacks, dropping snapshots older than UNDO.TTL_MS
+   */
+  async load(): Promise<UndoStacks> {
+    try {
+      const result = await this.storage.get(STORAGE_KEYS.UNDO)
+      const stored: UndoStacks | undefined = result?.[STORAGE_KEYS.UNDO]
+      const cutoff = Date.now() - UNDO.TTL_MS
+      const fresh = (snapshots: ConfigSnapshot[] | undefined) =>
+        (snapshots || []).filter(snapshot => snapshot.timestamp >= cutoff)
+
+      return { undo: fresh(stored?.undo), redo: fresh(stored?.redo) }
+    } catch (error) {
+      console.error('Failed to load undo history:', error)
+      return { undo: [], redo: [] }
+    }
+  }
+
+  private async save(stacks: UndoStacks): Promise<void> {
+    await this.storage.set({
+      [STORAGE_KEYS.UNDO]: {
+        undo: stacks.undo.slice(-UNDO.MAX_SNAPSHOTS),
+        redo: stacks.redo.slice(-UNDO.MAX_SNAPSHOTS)
+      }
+    })
+  }
+
+  private snapshot(label: string, config: DevNavigatorConfig): ConfigSnapshot {
+    return { label, config, timestamp: Date.now() }
+  }
+}
@@ -1,72 +1,54 @@
+import { BookmarkImporter } from '../core/bookmarks'
+import { HistoryManager } from '../core/history'
+import { URLParser } from '../core/parser'
+import { expandReferences, findReferencedKeys } from '../core/references'
+import { StorageManager } from '../core/storage'
+import { SubscriptionManager } from '../core/subscription'
+import { tokenizeInput } from '../core/tokenizer'
 import {
-  type DevNavigatorConfig,
-  DEFAULT_CONFIG,
-  STORAGE_KEYS
-} from '../types/storage'
+  applyImport,
+  exportAsBookmarksHtml,
+  exportAsCsv,
+  exportAsMarkdown,
+  parseCsvImport,
+  parseImport,
+  previewImport
+} from '../core/transfer'
+import { UndoHistory } from '../core/undo'
+import type {
+  BookmarkCandidate,
+  BookmarkFolder,
+  ConfigExport,
+  DevNavigatorConfig,
+  DraftToken,
+  ExportFormat,
+  FallbackAction,
+  HistoryEntry,
+  ImportMode,
+  NavigationDisposition,
+  SubscriptionState,
+  TabGroupColor,
+  Token
+} from '../types'
+import type { IStorageManager } from '../types/storage'
+import { DEFAULT_CONFIG, STORAGE_KEYS, UNDO } from '../utils/constants'
+import {
+  escapeHtml,
+  formatBytes,
+  isBaseUrl,
+  isMultiUrl,
+  isValidSearchUrl,
+  isValidTokenKey,
+  isValidUrl,
+  resolveTokenMap,
+  sanitizeTokenKey,
+  splitMultiUrl
+} from '../utils/helpers'
 
 /* ========================================
  * 1. CORE MODULES & INITIALIZATION
  * ======================================== */
 
-// Simple storage manager for vanilla JS
-class SimpleStorageManager {
-  private storage: typeof chrome.storage.sync
-
-  constructor() {
-    this.storage = chrome.storage.sync
-  }
-
-  async getConfig(): Promise<DevNavigatorConfig> {
-    try {
-      const result = await this.storage.get(STORAGE_KEYS.CONFIG)
-      const stored = result[STORAGE_KEYS.CONFIG]
-
-      if (stored && this.isValidConfig(stored)) {
-        return {
-          ...DEFAULT_CONFIG,
-          ...stored,
-          settings: {
-            ...DEFAULT_CONFIG.settings,
-            ...stored.settings
-          }
-        }
-      }
-
-      await this.saveConfig(DEFAULT_CONFIG)
-      return DEFAULT_CONFIG
-    } catch (error) {
-      console.error('Failed to get config from storage:', error)
-      return DEFAULT_CONFIG
-    }
-  }
-
-  async saveConfig(config: DevNavigatorConfig): Promise<void> {
-    try {
-      const configToSave = {
-        ...config,
-        version: config.version || DEFAULT_CONFIG.version
-      }
-
-      await this.storage.set({
-        [STORAGE_KEYS.CONFIG]: configToSave
-      })
-    } catch (error) {
-      console.error('Failed to save config to storage:', error)
-      throw new Error('Failed to save configuration')
-    }
-  }
-
-  isValidConfig(obj: any): obj is DevNavigatorConfig {
-    return (
-      obj &&
-      typeof obj === 'object' &&
-      typeof obj.tokens === 'object' &&
-      typeof obj.settings === 'object' &&
-      typeof obj.version === 'string'
-    )
-  }
-}
-
 // Import icon modules
 const downloadIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
   <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
@@ -97,8 +79,27 @@ const xIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" vi
   <line x1="6" y1="6" x2="18" y2="18"/>
 </svg>`
 
+const pencilIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+  <path d="M12 20h9"/>
+  <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/>
+</svg>`
+
+const bookmarkIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+  <path d="m19 21-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z"/>
+</svg>`
+
+const checkIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+  <polyline points="20,6 9,17 4,12"/>
+</svg>`
+
 // Initialize storage manager
-let storageManager: SimpleStorageManager
+let storageManager: IStorageManager
+let historyManager: HistoryManager
+let undoHistory: UndoHistory
+let bookmarkImporter: BookmarkImporter
+let subscriptionManager: SubscriptionManager
+let toastTimer: ReturnType<typeof setTimeout> | undefined
+const urlParser = new URLParser()
 let isInitialized = false
 
 /* ========================================
@@ -108,8 +109,27 @@ let isInitialized = false
 // Simple object-based state management
 const appState = {
   config: null as DevNavigatorConfig | null,
-  tokens: {} as Record<string, { value: string }>,
+  tokens: {} as Record<string, Token>,
+  recent: [] as HistoryEntry[],
+  // Last fetch of the subscribed team config
+  subscription: null as SubscriptionState | null,
   loading: true,
+  editingKey: null as string | null,
+  // Import waiting for confirmation, shown as a diff
+  importPreview: null as {
+    exported: ConfigExport
+    mode: ImportMode
+  } | null,
+  // Bookmarks folder being imported, with the proposed tokens
+  bookmarkImport: null as {
+    folders: BookmarkFolder[]
+    folderId: string
+    candidates: BookmarkCandidate[]
+  } | null,
+  editDraft: {
+    key: '',
+    value: ''
+  },
   formData: {
     key: '',
     value: ''
@@ -122,7 +142,7 @@ function updateState(updates: Partial<typeof appState>) {
   renderUI()
 }
 
-function updateTokens(tokens: Record<string, { value: string }>) {
+function updateTokens(tokens: Record<string, Token>) {
   appState.tokens = tokens
   renderUI()
 }
@@ -131,6 +151,30 @@ function updateFormData(field: 'key' | 'value', value: string) {
   appState.formData[field] = value
 }
 
+// Tokens being edited: the active profile's map, or the global map when no profile is active
+function getScopeTokens(config: DevNavigatorConfig): Record<string, Token> {
+  const profile = config.activeProfile
+  return (profile && config.profiles?.[profile]?.tokens) || config.tokens || {}
+}
+
+// Returns a copy of config with the edited scope's tokens replaced
+function withScopeTokens(
+  config: DevNavigatorConfig,
+  tokens: Record<string, Token>
+): DevNavigatorConfig {
+  const profile = config.activeProfile
+  if (profile && config.profiles?.[profile]) {
+    return {
+      ...config,
+      profiles: {
+        ...config.profiles,
+        [profile]: { ...config.profiles[profile], tokens }
+      }
+    }
+  }
+  return { ...config, tokens }
+}
+
 function clearFormData() {
   appState.formData = { key: '', value: '' }
   const keyInput = document.getElementById('token-key') as HTMLInputElement
@@ -171,16 +215,26 @@ function updateThemeUI(isDark: boolean) {
  * 4. FORM HANDLING & VALIDATION
  * ======================================== */
 
-// Validate token input
-function validateTokenInput(key: string, value: string): string[] {
+// Validate token input - originalKey is the key being edited, which may keep its name
+function validateTokenInput(
+  key: string,
+  value: string,
+  originalKey?: string
+): string[] {
   const errors: string[] = []
 
   // Validate key
   if (!key || key.trim() === '') {
     errors.push('Token key is required')
-  } else if (!/^[a-zA-Z0-9-]+$/.test(key.trim())) {
-    errors.push('Token key can only contain letters, numbers, and dashes')
-  } else if (appState.tokens && appState.tokens[key.trim()]) {
+  } else if (!isValidTokenKey(key.trim())) {
+    errors.push(
+      "Token key can't contain spaces or URL syntax characters (? # / = : @ ! quotes $ % & { })"
+    )
+  } else if (
+    key.trim() !== originalKey &&
+    appState.tokens &&
+    appState.tokens[key.trim()]
+  ) {
     errors.push(`Token '${key.trim()}' already exists`)
   }
 
@@ -209,10 +263,7 @@ async function handleFormSubmit(event: Event) {
   try {
     // Add token to storage - maintain compatibility with original Token format
     const updatedTokens = { ...appState.tokens, [key]: { value: value } }
-    const updatedConfig = {
-      ...appState.config,
-      tokens: updatedTokens
-    } as DevNavigatorConfig
+    const updatedConfig = withScopeTokens(appState.config!, updatedTokens)
 
     await storageManager.saveConfig(updatedConfig)
     updateState({ config: updatedConfig, tokens: updatedTokens })
@@ -232,27 +283,64 @@ function handleValueInput(event: Event) {
   updateFormData('value', (event.target as HTMLInputElement).value)
 }
 
+// Prefill the form with a token drafted by the omnibox "new token" fallback
+async function applyDraftToken() {
+  const result = await chrome.storage.session.get(STORAGE_KEYS.DRAFT_TOKEN)
+  const draft: DraftToken | undefined = result?.[STORAGE_KEYS.DRAFT_TOKEN]
+  if (!draft) return
+  await chrome.storage.session.remove(STORAGE_KEYS.DRAFT_TOKEN)
+
+  updateFormData('key', draft.key)
+  updateFormData('value', draft.value)
+
+  const keyInput = document.getElementById('token-key') as HTMLInputElement
+  const valueInput = document.getElementById('token-value') as HTMLInputElement
+  if (keyInput) keyInput.value = draft.key
+  if (valueInput) {
+    valueInput.value = draft.value
+    valueInput.focus()
+  }
+}
+
 /* ========================================
  * 5. FILE OPERATIONS
  * ======================================== */
 
-// Export configuration as JSON file
-function handleExportConfig() {
-  try {
-    const configToExport = {
-      version: '1.0.0',
-      exportDate: new Date().toISOString(),
-      config: appState.config
-    }
+// File extension and MIME type for each export format
+const EXPORT_FILES: Record<ExportFormat, { extension: string; type: string }> =
+  {
+    json: { extension: 'json', type: 'application/json' },
+    html: { extension: 'html', type: 'text/html' },
+    markdown: { extension: 'md', type: 'text/markdown' },
+    csv: { extension: 'csv', type: 'text/csv' }
+  }
 
-    const blob = new Blob([JSON.stringify(configToExport, null, 2)], {
-      type: 'application/json'
-    })
+// Export configuration in the format picked next to the export button
+async function handleExportConfig() {
+  const formatSelect = document.getElementById(
+    'export-format'
+  ) as HTMLSelectElement | null
+  const format = (formatSelect?.value || 'json') as ExportFormat
+
+  try {
+    // Only JSON carries profiles and settings; the others are global token lists
+    const tokens = appState.config?.tokens || {}
+    const content =
+      format === 'html'
+        ? exportAsBookmarksHtml(tokens)
+        : format === 'markdown'
+          ? exportAsMarkdown(tokens)
+          : format === 'csv'
+            ? exportAsCsv(tokens)
+            : JSON.stringify(await storageManager.exportConfig(), null, 2)
+
+    const { extension, type } = EXPORT_FILES[format]
+    const blob = new Blob([content], { type })
 
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `devnav-config-${new Date().toISOString().split('T')[0]}.json`
+    a.download = `devnav-config-${new Date().toISOString().split('T')[0]}.${extension}`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -263,11 +351,11 @@ function handleExportConfig() {
   }
 }
 
-// Import configuration from JSON file
+// Read a JSON or CSV file and show what importing it would change
 function handleImportConfig() {
   const input = document.createElement('input')
   input.type = 'file'
-  input.accept = '.json'
+  input.accept = '.json,.csv'
 
   input.onchange = async event => {
     const file = (event.target as HTMLInputElement).files?.[0]
@@ -275,18 +363,18 @@ function handleImportConfig() {
 
     try {
       const text = await file.text()
-      const importedData = JSON.parse(text)
+      const result = file.name.toLowerCase().endsWith('.csv')
+        ? parseCsvImport(text)
+        : parseImport(JSON.parse(text))
 
-      // Validate imported structure
-      if (!importedData.config || !importedData.config.tokens) {
-        throw new Error('Invalid configuration file format')
+      if (!result.isValid || !result.config) {
+        alert(`Error: Invalid configuration file.\n${result.errors.join('\n')}`)
+        return
       }
 
-      // Save imported config
-      await storageManager.saveConfig(importedData.config)
+      // Nothing is saved until the preview is confirmed
       updateState({
-        config: importedData.config,
-        tokens: importedData.config.tokens
+        importPreview: { exported: result.config, mode: 'merge' }
       })
     } catch (error) {
       console.error('Error importing config:', error)
@@ -299,228 +387,1437 @@ function handleImportConfig() {
   input.click()
 }
 
-// Clear all configuration data
-async function handleClearAllData() {
+// Save the previewed import
+async function handleApplyImport() {
+  const preview = appState.importPreview
+  if (!preview || !appState.config) return
+
   try {
-    const defaultConfig = { ...DEFAULT_CONFIG }
-    await storageManager.saveConfig(defaultConfig)
+    // Replacing applies the file's settings, including its team config URL
+    const subscribeUrl = preview.exported.devNavigator.settings?.subscribeUrl
+    if (
+      preview.mode === 'replace' &&
+      subscribeUrl &&
+      subscribeUrl !== appState.config.settings.subscribeUrl &&
+      !(await requestSubscriptionAccess(subscribeUrl))
+    ) {
+      return
+    }
+
+    const before = appState.config
+    await storageManager.importConfig(preview.exported, preview.mode)
+    const config = await storageManager.getConfig()
     updateState({
-      config: defaultConfig,
-      tokens: defaultConfig.tokens
+      config,
+      tokens: getScopeTokens(config),
+      importPreview: null
     })
-    clearFormData()
+    await recordUndo('Imported configuration', before)
   } catch (error) {
-    console.error('Error clearing data:', error)
-    alert('Error: Failed to clear all data')
+    console.error('Error importing config:', error)
+    alert('Error: Failed to import configuration')
   }
 }
 
-/* ========================================
- * 6. TOKEN MANAGEMENT
- * ======================================== */
-
-// Delete a specific token
-async function handleDeleteToken(tokenKey: string) {
+// Open the bookmarks importer on the first folder that has bookmarks
+async function handleOpenBookmarkImport() {
   try {
-    const updatedTokens = { ...appState.tokens }
-    delete updatedTokens[tokenKey]
+    const folders = await bookmarkImporter.getFolders()
+    const folder =
+      folders.find(candidate => candidate.bookmarkCount > 0) || folders[0]
 
-    const updatedConfig = {
-      ...appState.config,
-      tokens: updatedTokens
-    } as DevNavigatorConfig
-    await storageManager.saveConfig(updatedConfig)
-    updateState({ config: updatedConfig, tokens: updatedTokens })
+    if (!folder) {
+      alert('Error: No bookmark folders found')
+      return
+    }
+
+    updateState({
+      bookmarkImport: {
+        folders,
+        folderId: folder.id,
+        candidates: await bookmarkImporter.getCandidates(
+          folder.id,
+          appState.tokens
+        )
+      }
+    })
   } catch (error) {
-    console.error('Error deleting token:', error)
-    alert('Error: Failed to delete token')
+    console.error('Error reading bookmarks:', error)
+    alert('Error: Failed to read bookmarks')
   }
 }
 
-// Render token badges
-function renderTokenBadges() {
-  const container = document.getElementById('tokens-container')
-  if (!container) return
+async function handleBookmarkFolderChange(folderId: string) {
+  if (!appState.bookmarkImport) return
 
-  const tokens = appState.tokens || {}
-  const tokenKeys = Object.keys(tokens)
+  try {
+    const candidates = await bookmarkImporter.getCandidates(
+      folderId,
+      appState.tokens
+    )
+    updateState({
+      bookmarkImport: { ...appState.bookmarkImport, folderId, candidates }
+    })
+  } catch (error) {
+    console.error('Error reading bookmarks:', error)
+    alert('Error: Failed to read bookmark folder')
+  }
+}
 
-  if (tokenKeys.length === 0) {
-    container.innerHTML = `
-      <div class="empty-state">
-        <div class="empty-state-emoji">📝</div>
-        <div class="empty-state-title">No shortcuts configured</div>
-        <div class="empty-state-description">Add your first URL shortcut above</div>
-      </div>
-    `
+// Update one proposed token - a new key is sanitized and re-checked for conflicts
+function updateBookmarkCandidate(
+  id: string,
+  updates: Partial<Pick<BookmarkCandidate, 'key' | 'selected'>>
+) {
+  if (!appState.bookmarkImport) return
+
+  const candidates = appState.bookmarkImport.candidates.map(candidate => {
+    if (candidate.id !== id) return candidate
+
+    const key =
+      updates.key !== undefined ? sanitizeTokenKey(updates.key) : candidate.key
+    return {
+      ...candidate,
+      ...updates,
+      key,
+      conflict: bookmarkImporter.classify(key, candidate.url, appState.tokens)
+    }
+  })
+
+  updateState({
+    bookmarkImport: { ...appState.bookmarkImport, candidates }
+  })
+}
+
+// Save the selected bookmarks as tokens in the current scope
+async function handleApplyBookmarkImport() {
+  const selected =
+    appState.bookmarkImport?.candidates.filter(
+      candidate => candidate.selected
+    ) || []
+  if (selected.length === 0 || !appState.config) return
+
+  const keys = selected.map(candidate => candidate.key)
+  const repeated = keys.filter((key, index) => keys.indexOf(key) !== index)
+  if (keys.includes('') || repeated.length > 0) {
+    alert(
+      `Error: Each selected bookmark needs a unique key${repeated.length > 0 ? ` ('${repeated[0]}' is used twice)` : ''}`
+    )
     return
   }
 
-  const tableRowsHtml = tokenKeys
-    .map(key => {
-      const token = tokens[key]
-      // Handle both old format (string) and new format ({ value: string })
-      const value = typeof token === 'string' ? token : token.value
-      const truncatedValue =
-        value.length > 50 ? value.substring(0, 50) + '...' : value
+  const replaced = selected.filter(
+    candidate => candidate.conflict === 'conflict'
+  )
+  if (
+    replaced.length > 0 &&
+    !confirm(
+      `Replace existing tokens: ${replaced.map(candidate => candidate.key).join(', ')}?`
+    )
+  ) {
+    return
+  }
 
-      return `
-        <tr>
-          <td class="token-key">${key}</td>
-          <td class="token-value" title="${value}">${truncatedValue}</td>
-          <td class="token-action">
-            <button class="badge-delete" data-token-key="${key}" aria-label="Delete ${key}">
-              ${xIcon}
-            </button>
-          </td>
-        </tr>
-      `
+  try {
+    const before = appState.config
+    const updatedTokens = { ...appState.tokens }
+    selected.forEach(candidate => {
+      updatedTokens[candidate.key] = { value: candidate.url }
     })
-    .join('')
 
-  container.innerHTML = `
-    <div class="tokens-table-container">
-      <table class="tokens-table">
-        <thead>
-          <tr>
-            <th>Key</th>
-            <th>Value</th>
-            <th>Action</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${tableRowsHtml}
-        </tbody>
-      </table>
-    </div>
-  `
+    const updatedConfig = withScopeTokens(appState.config, updatedTokens)
+    await storageManager.saveConfig(updatedConfig)
+    updateState({
+      config: updatedConfig,
+      tokens: updatedTokens,
+      bookmarkImport: null
+    })
+    await recordUndo(
+      `Imported ${selected.length} bookmark${selected.length === 1 ? '' : 's'}`,
+      before
+    )
+  } catch (error) {
+    console.error('Error importing bookmarks:', error)
+    alert('Error: Failed to import bookmarks')
+  }
+}
 
-  // Re-attach event listeners for delete buttons after rendering
-  attachTokenDeleteListeners()
+// Cross-origin fetches need access to the team config's host
+async function requestSubscriptionAccess(url: string): Promise<boolean> {
+  const granted = await chrome.permissions.request({
+    origins: [`${new URL(url).origin}/*`]
+  })
+  if (!granted) {
+    alert('Error: DevNav needs access to that site to fetch the team config')
+  }
+  return granted
 }
 
-// Helper function to attach delete button listeners
-function attachTokenDeleteListeners() {
-  const tokensContainer = document.getElementById(
-    'tokens-container'
-  ) as HTMLElement & {
-    _deleteHandler?: (event: MouseEvent) => void
+// Subscribe to a team config URL - the background fetches it and keeps it fresh
+async function handleSaveSubscription() {
+  const input = document.getElementById(
+    'subscribe-url'
+  ) as HTMLInputElement | null
+  const url = input?.value.trim() || ''
+
+  if (url && !isValidUrl(url)) {
+    alert('Error: Team config URL must be a valid http(s) URL')
+    return
   }
-  if (tokensContainer) {
-    // Remove existing listeners to avoid duplicates
-    if (tokensContainer._deleteHandler) {
-      tokensContainer.removeEventListener(
-        'click',
-        tokensContainer._deleteHandler
-      )
-    }
 
-    // Add new event listener
-    const deleteHandler = (event: MouseEvent) => {
-      const target = event.target as HTMLElement
-      if (target.closest('.badge-delete')) {
-        const deleteBtn = target.closest('.badge-delete') as HTMLElement
-        const tokenKey = deleteBtn.getAttribute('data-token-key')
-        if (tokenKey) {
-          handleDeleteToken(tokenKey)
-        }
-      }
-    }
+  try {
+    if (url && !(await requestSubscriptionAccess(url))) return
 
-    tokensContainer.addEventListener('click', deleteHandler)
-    tokensContainer._deleteHandler = deleteHandler
+    await storageManager.updateSettings({ subscribeUrl: url })
+  } catch (error) {
+    console.error('Error saving subscription:', error)
+    alert('Error: Failed to save team config URL')
   }
 }
 
-/* ========================================
- * 7. DOM MANIPULATION & RENDERING
- * ======================================== */
+// Fetch the team config now instead of waiting for the next refresh
+async function handleSyncSubscription() {
+  const url = appState.config?.settings.subscribeUrl
+  if (!url) return
 
-// Create the main UI structure
-function createUIStructure() {
-  const root = document.getElementById('devnav-root')
-  if (!root) {
-    console.error('Root element not found')
-    return
+  try {
+    const state = await subscriptionManager.refresh(url)
+    updateState({ subscription: state })
+  } catch (error) {
+    console.error('Error syncing team config:', error)
+    alert('Error: Failed to sync team config')
   }
+}
 
-  root.innerHTML = `
-    <div class="card">
-      <div class="card-header">
-        <h1 class="card-title">DevNav - URL Shortcuts</h1>
-        <p class="card-description">Configure URL shortcuts for fast navigation. Use pattern @base-dynamic-@path</p>
-      </div>
-      <div class="card-content">
-        <!-- Action buttons -->
-        <div class="button-group">
-          <button class="btn btn-outline" id="export-btn" title="Export configuration">
-            ${uploadIcon}
-          </button>
-          <button class="btn btn-outline" id="import-btn" title="Import configuration">
-            ${downloadIcon}
-          </button>
-          <button class="btn btn-destructive" id="clear-all-btn" title="Clear all data">
-            ${trashIcon}
-          </button>
-        </div>
-
-        <!-- Add token form -->
-        <form class="form" id="token-form">
-          <div class="input-row">
-            <div class="form-group" style="flex: 1;">
-              <label class="label" for="token-key">Shortcut Key</label>
-              <input
-                type="text"
-                id="token-key"
-                class="input"
-                placeholder="e.g., api"
-                required
-              />
-            </div>
-            <div class="form-group" style="flex: 2;">
-              <label class="label" for="token-value">URL Value</label>
-              <input
-                type="text"
-                id="token-value"
-                class="input"
-                placeholder="e.g., https://api.example.com"
-                required
-              />
-            </div>
-            <div class="form-group">
-              <button type="submit" class="btn btn-primary" style="margin-top: 24px;" title="Add shortcut">
-                ${plusIcon}
-              </button>
-            </div>
-          </div>
-        </form>
+// Labels for the open mode and fallback selects in the settings section
+const DISPOSITION_LABELS: Record<NavigationDisposition, string> = {
+  currentTab: 'Current tab',
+  newForegroundTab: 'New tab',
+  newBackgroundTab: 'Background tab'
+}
 
-        <!-- Tokens display -->
-        <div id="tokens-container">
-          <!-- Tokens will be rendered here -->
-        </div>
-      </div>
-    </div>
-  `
+const FALLBACK_LABELS: Record<FallbackAction, string> = {
+  search: 'Search with the URL below',
+  newToken: 'Add it as a new shortcut',
+  notify: 'Show an error',
+  defaultSearch: 'Search with the default engine'
 }
 
-// Main render function
-function renderUI() {
-  if (!isInitialized) return
+const GROUP_COLOR_LABELS: Record<TabGroupColor, string> = {
+  grey: 'Grey group',
+  blue: 'Blue group',
+  red: 'Red group',
+  yellow: 'Yellow group',
+  green: 'Green group',
+  pink: 'Pink group',
+  purple: 'Purple group',
+  cyan: 'Cyan group',
+  orange: 'Orange group'
+}
 
-  // Update loading state
-  const root = document.getElementById('devnav-root')
-  if (!root) return
+type EditableSetting = 'defaultDisposition' | 'fallback' | 'fallbackSearchUrl'
 
-  if (appState.loading) {
-    root.classList.add('loading')
-  } else {
-    root.classList.remove('loading')
+// Save a setting edited in the settings section
+async function handleSettingChange(name: EditableSetting, value: string) {
+  const trimmed = value.trim()
+  if (name === 'fallbackSearchUrl' && !isValidSearchUrl(trimmed)) {
+    alert('Error: Search URL must be a valid http(s) URL containing %s')
+    renderSettings()
+    return
   }
 
-  // Render token badges
-  renderTokenBadges()
-}
+  try {
+    await storageManager.updateSettings({ [name]: trimmed })
+    const config = await storageManager.getConfig()
+    updateState({ config, tokens: getScopeTokens(config) })
+  } catch (error) {
+    console.error('Error saving settings:', error)
+    alert('Error: Failed to save settings')
+  }
+}
+
+type ToggleSetting = 'showDescriptions'
+
+// Save a setting switched on or off in the settings section
+async function handleSettingToggle(name: ToggleSetting, checked: boolean) {
+  try {
+    await storageManager.updateSettings({ [name]: checked })
+    const config = await storageManager.getConfig()
+    updateState({ config, tokens: getScopeTokens(config) })
+  } catch (error) {
+    console.error('Error saving settings:', error)
+    alert('Error: Failed to save settings')
+  }
+}
+
+// Save a base token's open mode - '' falls back to the default
+async function handleTokenDispositionChange(key: string, value: string) {
+  try {
+    await storageManager.setTokenDisposition(
+      key,
+      (value || undefined) as NavigationDisposition | undefined,
+      appState.config?.activeProfile
+    )
+    const config = await storageManager.getConfig()
+    updateState({ config, tokens: getScopeTokens(config) })
+  } catch (error) {
+    console.error('Error saving open mode:', error)
+    alert('Error: Failed to save open mode')
+  }
+}
+
+// Group a multi-URL token's tabs in the picked color - '' opens them ungrouped
+async function handleTokenGroupChange(key: string, color: string) {
+  const group = appState.tokens[key]?.group
+  try {
+    await storageManager.setTokenGroup(
+      key,
+      color ? { ...group, color: color as TabGroupColor } : undefined,
+      appState.config?.activeProfile
+    )
+    const config = await storageManager.getConfig()
+    updateState({ config, tokens: getScopeTokens(config) })
+  } catch (error) {
+    console.error('Error saving tab group:', error)
+    alert('Error: Failed to save tab group')
+  }
+}
+
+// Clear all configuration data
+async function handleClearAllData() {
+  if (!confirm('Delete all shortcuts and profiles?')) return
+
+  try {
+    const before = appState.config
+    await storageManager.resetConfig()
+    const defaultConfig = structuredClone(DEFAULT_CONFIG)
+    updateState({
+      config: defaultConfig,
+      tokens: getScopeTokens(defaultConfig)
+    })
+    clearFormData()
+    await recordUndo('Cleared all data', before)
+  } catch (error) {
+    console.error('Error clearing data:', error)
+    alert('Error: Failed to clear all data')
+  }
+}
+
+// Clear recent navigations (history lives in local storage, not the config)
+async function handleClearHistory() {
+  try {
+    await historyManager.clearHistory()
+    updateState({ recent: [] })
+  } catch (error) {
+    console.error('Error clearing history:', error)
+    alert('Error: Failed to clear recent navigations')
+  }
+}
+
+// Switch the active profile (empty value = global tokens only)
+async function handleProfileChange(event: Event) {
+  if (!appState.config) return
+
+  const profile = (event.target as HTMLSelectElement).value || undefined
+  await saveProfiles(appState.config.profiles || {}, profile)
+}
+
+// Create a profile and make it active
+async function handleAddProfile() {
+  if (!appState.config) return
+
+  const name = sanitizeTokenKey(prompt('New profile name') || '')
+  if (!name) return
+
+  const profiles = appState.config.profiles || {}
+  if (profiles[name]) {
+    alert(`Error: Profile '${name}' already exists`)
+    return
+  }
+
+  await saveProfiles({ ...profiles, [name]: { tokens: {} } }, name)
+}
+
+// Delete the active profile and fall back to global tokens
+async function handleDeleteProfile() {
+  const profile = appState.config?.activeProfile
+  if (!appState.config || !profile) return
+
+  if (!confirm(`Delete profile '${profile}' and its tokens?`)) return
+
+  const before = appState.config
+  const profiles = { ...appState.config.profiles }
+  delete profiles[profile]
+  await saveProfiles(profiles, undefined)
+  await recordUndo(`Deleted profile '${profile}'`, before)
+}
+
+async function saveProfiles(
+  profiles: DevNavigatorConfig['profiles'],
+  activeProfile: string | undefined
+) {
+  try {
+    const updatedConfig = {
+      ...appState.config,
+      profiles,
+      activeProfile
+    } as DevNavigatorConfig
+
+    await storageManager.saveConfig(updatedConfig)
+    updateState({
+      config: updatedConfig,
+      tokens: getScopeTokens(updatedConfig)
+    })
+  } catch (error) {
+    console.error('Error saving profiles:', error)
+    alert('Error: Failed to save profiles')
+  }
+}
+
+// Render the profile switcher options
+function renderProfileSelect() {
+  const select = document.getElementById('profile-select') as HTMLSelectElement
+  if (!select || !appState.config) return
+
+  const active = appState.config.activeProfile || ''
+  const names = Object.keys(appState.config.profiles || {})
+
+  select.innerHTML = ['', ...names]
+    .map(
+      name =>
+        `<option value="${escapeHtml(name)}"${name === active ? ' selected' : ''}>${
+          name ? escapeHtml(name) : 'Global'
+        }</option>`
+    )
+    .join('')
+
+  const deleteBtn = document.getElementById(
+    'delete-profile-btn'
+  ) as HTMLButtonElement
+  if (deleteBtn) deleteBtn.disabled = !active
+}
+
+/* ========================================
+ * 6. TOKEN MANAGEMENT
+ * ======================================== */
+
+// Remember the config before a destructive change and offer to undo it
+async function recordUndo(label: string, before: DevNavigatorConfig | null) {
+  if (!before) return
+
+  try {
+    await undoHistory.record(label, before)
+    showToast(label, 'Undo', handleUndo)
+  } catch (error) {
+    console.error('Error recording undo snapshot:', error)
+  }
+}
+
+// Restore the config from before the last change
+async function handleUndo() {
+  if (!appState.config) return
+
+  try {
+    const snapshot = await undoHistory.undo(appState.config)
+    if (!snapshot) {
+      showToast('Nothing to undo')
+      return
+    }
+
+    await restoreSnapshot(snapshot.config)
+    showToast(`Undid: ${snapshot.label}`, 'Redo', handleRedo)
+  } catch (error) {
+    console.error('Error undoing change:', error)
+    alert('Error: Failed to undo')
+  }
+}
+
+// Re-apply the last undone change
+async function handleRedo() {
+  if (!appState.config) return
+
+  try {
+    const snapshot = await undoHistory.redo(appState.config)
+    if (!snapshot) {
+      showToast('Nothing to redo')
+      return
+    }
+
+    await restoreSnapshot(snapshot.config)
+    showToast(`Redid: ${snapshot.label}`, 'Undo', handleUndo)
+  } catch (error) {
+    console.error('Error redoing change:', error)
+    alert('Error: Failed to redo')
+  }
+}
+
+async function restoreSnapshot(config: DevNavigatorConfig) {
+  await storageManager.saveConfig(config)
+  updateState({ config, tokens: getScopeTokens(config), editingKey: null })
+}
+
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes - text fields keep native undo
+function handleUndoShortcut(event: KeyboardEvent) {
+  const target = event.target as HTMLElement
+  if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea')) {
+    return
+  }
+
+  const key = event.key.toLowerCase()
+  if (key === 'z' && !event.shiftKey) {
+    event.preventDefault()
+    handleUndo()
+  } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+    event.preventDefault()
+    handleRedo()
+  }
+}
+
+// Delete a specific token
+async function handleDeleteToken(tokenKey: string) {
+  const references = findTokenReferences(tokenKey)
+  if (
+    references.length > 0 &&
+    !confirm(
+      `'${tokenKey}' is used by:\n${references.join('\n')}\n\nDelete it anyway?`
+    )
+  ) {
+    return
+  }
+
+  try {
+    const before = appState.config
+    const updatedTokens = { ...appState.tokens }
+    delete updatedTokens[tokenKey]
+
+    const updatedConfig = withScopeTokens(appState.config!, updatedTokens)
+    await storageManager.saveConfig(updatedConfig)
+    updateState({ config: updatedConfig, tokens: updatedTokens })
+    await recordUndo(`Deleted '${tokenKey}'`, before)
+  } catch (error) {
+    console.error('Error deleting token:', error)
+    alert('Error: Failed to delete token')
+  }
+}
+
+// Start editing a token row in place
+function handleStartEdit(tokenKey: string) {
+  const token = appState.tokens[tokenKey]
+  if (!token) return
+
+  updateState({
+    editingKey: tokenKey,
+    editDraft: { key: tokenKey, value: token.value }
+  })
+
+  const keyInput = document.querySelector(
+    '[data-edit-field="key"]'
+  ) as HTMLInputElement
+  keyInput?.focus()
+}
+
+function handleCancelEdit() {
+  updateState({ editingKey: null })
+}
+
+// Whether a token value uses the key, as ${key} or as a plain token in a
+// multi-URL member like "prod users | staging users"
+function usesTokenKey(value: string, tokenKey: string): boolean {
+  if (findReferencedKeys(value).includes(tokenKey)) return true
+  if (!isMultiUrl(value)) return false
+
+  return splitMultiUrl(value).some(
+    member =>
+      !isBaseUrl(member) &&
+      tokenizeInput(member).segments.some(
+        segment => !segment.quoted && segment.text === tokenKey
+      )
+  )
+}
+
+// Tokens and recent navigations that would stop resolving if the key changed
+function findTokenReferences(tokenKey: string): string[] {
+  const references: string[] = []
+  const config = appState.config
+
+  if (config) {
+    const scopes: [string, Record<string, Token>][] = [
+      ['', config.tokens],
+      ...Object.keys(config.profiles || {}).map(
+        (name): [string, Record<string, Token>] => [
+          `${name}:`,
+          config.profiles![name].tokens
+        ]
+      )
+    ]
+    for (const [prefix, tokens] of scopes) {
+      for (const key of Object.keys(tokens)) {
+        if (usesTokenKey(tokens[key].value, tokenKey)) {
+          references.push(`token: ${prefix}${key}`)
+        }
+      }
+    }
+  }
+
+  return [
+    ...references,
+    ...appState.recent
+      .filter(entry => entry.tokens.includes(tokenKey))
+      .map(entry => `recent: ${entry.input}`)
+  ]
+}
+
+// Hover text for a token value - ${key} references are shown expanded, or why they can't be
+function describeTokenValue(key: string, value: string): string {
+  if (!appState.config || findReferencedKeys(value).length === 0) return value
+
+  const tokenMap = resolveTokenMap(appState.config)
+  const expanded = expandReferences(value, tokenMap, [key])
+  return expanded.errors.length > 0
+    ? `${value}\n${expanded.errors.map(error => error.message).join('\n')}`
+    : `${value}\n→ ${expanded.value}`
+}
+
+// Save an inline edit - renames go through renameToken so token fields survive
+async function handleSaveEdit(originalKey: string) {
+  const key = appState.editDraft.key.trim()
+  const value = appState.editDraft.value.trim()
+
+  const errors = validateTokenInput(key, value, originalKey)
+  if (errors.length > 0) {
+    alert(`Error: ${errors.join('. ')}`)
+    return
+  }
+
+  if (key !== originalKey) {
+    const references = findTokenReferences(originalKey)
+    if (
+      references.length > 0 &&
+      !confirm(
+        `'${originalKey}' is used by:\n${references.join('\n')}\n\nRename to '${key}' anyway?`
+      )
+    ) {
+      return
+    }
+  }
+
+  try {
+    const before = appState.config
+    const profile = appState.config?.activeProfile
+
+    if (key !== originalKey) {
+      await storageManager.renameToken(originalKey, key, profile)
+    }
+    if (value !== appState.tokens[originalKey]?.value) {
+      await storageManager.setToken(key, value, profile)
+    }
+
+    const config = await storageManager.getConfig()
+    updateState({ config, tokens: getScopeTokens(config), editingKey: null })
+    await recordUndo(
+      key !== originalKey
+        ? `Renamed '${originalKey}' to '${key}'`
+        : `Edited '${key}'`,
+      before
+    )
+  } catch (error) {
+    console.error('Error editing token:', error)
+    alert('Error: Failed to save token')
+  }
+}
+
+// Render token badges
+function renderTokenBadges() {
+  const container = document.getElementById('tokens-container')
+  if (!container) return
+
+  const tokens = appState.tokens || {}
+  const tokenKeys = Object.keys(tokens)
+
+  if (tokenKeys.length === 0) {
+    container.innerHTML = `
+      <div class="empty-state">
+        <div class="empty-state-emoji">📝</div>
+        <div class="empty-state-title">No shortcuts configured</div>
+        <div class="empty-state-description">Add your first URL shortcut above</div>
+      </div>
+    `
+    return
+  }
+
+  const tableRowsHtml = tokenKeys
+    .map(key => {
+      const safeKey = escapeHtml(key)
+
+      if (key === appState.editingKey) {
+        return `
+        <tr class="token-row-editing">
+          <td class="token-key">
+            <input class="input input-inline" data-edit-field="key" value="${escapeHtml(appState.editDraft.key)}" aria-label="Key" />
+          </td>
+          <td class="token-value">
+            <input class="input input-inline" data-edit-field="value" value="${escapeHtml(appState.editDraft.value)}" aria-label="Value" />
+          </td>
+          <td class="token-action">
+            <div class="token-action-buttons">
+              <button class="badge-save" data-token-key="${safeKey}" aria-label="Save ${safeKey}">
+                ${checkIcon}
+              </button>
+              <button class="badge-cancel" aria-label="Cancel editing">
+                ${xIcon}
+              </button>
+            </div>
+          </td>
+        </tr>
+      `
+      }
+
+      const value = tokens[key].value
+      const truncatedValue =
+        value.length > 50 ? `${value.substring(0, 50)}...` : value
+
+      return `
+        <tr data-token-key="${safeKey}">
+          <td class="token-key">${safeKey}</td>
+          <td class="token-value" title="${escapeHtml(describeTokenValue(key, value))}">${escapeHtml(truncatedValue)}</td>
+          <td class="token-action">
+            <div class="token-action-buttons">
+              <button class="badge-edit" data-token-key="${safeKey}" aria-label="Edit ${safeKey}">
+                ${pencilIcon}
+              </button>
+              <button class="badge-delete" data-token-key="${safeKey}" aria-label="Delete ${safeKey}">
+                ${xIcon}
+              </button>
+            </div>
+          </td>
+        </tr>
+      `
+    })
+    .join('')
+
+  container.innerHTML = `
+    <div class="tokens-table-container">
+      <table class="tokens-table">
+        <thead>
+          <tr>
+            <th>Key</th>
+            <th>Value</th>
+            <th>Action</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${tableRowsHtml}
+        </tbody>
+      </table>
+    </div>
+  `
+
+  // Re-attach event listeners for row actions after rendering
+  attachTokenActionListeners()
+}
+
+// Helper function to attach edit, save, cancel and delete listeners
+function attachTokenActionListeners() {
+  const tokensContainer = document.getElementById(
+    'tokens-container'
+  ) as HTMLElement & {
+    _actionHandler?: (event: MouseEvent) => void
+    _keyHandler?: (event: KeyboardEvent) => void
+    _inputHandler?: (event: Event) => void
+  }
+  if (tokensContainer) {
+    // Remove existing listeners to avoid duplicates
+    if (tokensContainer._actionHandler) {
+      tokensContainer.removeEventListener(
+        'click',
+        tokensContainer._actionHandler
+      )
+      tokensContainer.removeEventListener(
+        'dblclick',
+        tokensContainer._actionHandler
+      )
+    }
+    if (tokensContainer._keyHandler) {
+      tokensContainer.removeEventListener(
+        'keydown',
+        tokensContainer._keyHandler
+      )
+    }
+    if (tokensContainer._inputHandler) {
+      tokensContainer.removeEventListener(
+        'input',
+        tokensContainer._inputHandler
+      )
+    }
+
+    // Add new event listeners
+    const actionHandler = (event: MouseEvent) => {
+      const target = event.target as HTMLElement
+      const button = target.closest(
+        '.badge-edit, .badge-save, .badge-cancel, .badge-delete'
+      )
+      const tokenKey = button?.getAttribute('data-token-key')
+
+      if (button?.classList.contains('badge-cancel')) {
+        handleCancelEdit()
+      } else if (tokenKey && button?.classList.contains('badge-save')) {
+        handleSaveEdit(tokenKey)
+      } else if (tokenKey && button?.classList.contains('badge-edit')) {
+        handleStartEdit(tokenKey)
+      } else if (tokenKey && button?.classList.contains('badge-delete')) {
+        handleDeleteToken(tokenKey)
+      } else if (event.type === 'dblclick' && !appState.editingKey) {
+        // Double-clicking a row edits it too
+        const rowKey = target
+          .closest('tr[data-token-key]')
+          ?.getAttribute('data-token-key')
+        if (rowKey) handleStartEdit(rowKey)
+      }
+    }
+
+    const keyHandler = (event: KeyboardEvent) => {
+      if (!appState.editingKey) return
+      if (event.key === 'Enter') {
+        event.preventDefault()
+        handleSaveEdit(appState.editingKey)
+      } else if (event.key === 'Escape') {
+        handleCancelEdit()
+      }
+    }
+
+    // Keep the draft in state so live re-renders don't drop typed text
+    const inputHandler = (event: Event) => {
+      const input = event.target as HTMLInputElement
+      const field = input.getAttribute('data-edit-field')
+      if (field === 'key' || field === 'value') {
+        appState.editDraft[field] = input.value
+      }
+    }
+
+    tokensContainer.addEventListener('click', actionHandler)
+    tokensContainer.addEventListener('dblclick', actionHandler)
+    tokensContainer.addEventListener('keydown', keyHandler)
+    tokensContainer.addEventListener('input', inputHandler)
+    tokensContainer._actionHandler = actionHandler
+    tokensContainer._keyHandler = keyHandler
+    tokensContainer._inputHandler = inputHandler
+  }
+}
+
+// Rewrite the active tab's URL onto another base token
+async function handleSwitchEnvironment(targetKey: string) {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab?.id || !tab.url || !appState.config) return
+
+    const switched = urlParser.switchBase(tab.url, targetKey, appState.config)
+    if (!switched.isValid) {
+      alert(`Error: ${switched.description}`)
+      return
+    }
+
+    await chrome.tabs.update(tab.id, { url: switched.url })
+  } catch (error) {
+    console.error('Error switching environment:', error)
+    alert('Error: Failed to switch environment')
+  }
+}
+
+// Render one switch button per base URL token
+function renderEnvironmentButtons() {
+  const container = document.getElementById('environment-container')
+  if (!container) return
+
+  if (!appState.config) return
+
+  // Bases from the global map count too, not just the edited profile
+  const tokens = resolveTokenMap(appState.config)
+  const baseKeys = Object.keys(tokens).filter(key =>
+    isBaseUrl(tokens[key].value)
+  )
+
+  if (baseKeys.length === 0) {
+    container.innerHTML = `
+      <div class="empty-state-description">Add a token with an http(s) URL to switch environments</div>
+    `
+    return
+  }
+
+  container.innerHTML = `
+    <div class="button-group">
+      ${baseKeys
+        .map(
+          key => `
+        <button class="btn btn-outline btn-sm" data-environment-key="${escapeHtml(key)}" title="Open this page on ${escapeHtml(key)}">
+          ${escapeHtml(key)}
+        </button>
+      `
+        )
+        .join('')}
+    </div>
+  `
+}
+
+// Render the added / changed / removed tokens of a pending import
+function renderImportPreview() {
+  const container = document.getElementById('import-preview')
+  if (!container) return
+
+  const preview = appState.importPreview
+  if (!preview || !appState.config) {
+    container.innerHTML = ''
+    return
+  }
+
+  const diff = previewImport(
+    appState.config,
+    applyImport(appState.config, preview.exported, preview.mode)
+  )
+  const renderKeys = (label: string, keys: string[], className: string) =>
+    keys.length === 0
+      ? ''
+      : `
+      <div class="import-diff-group">
+        <div class="import-diff-label">${label} (${keys.length})</div>
+        ${keys.map(key => `<span class="badge ${className}">${escapeHtml(key)}</span>`).join('')}
+      </div>
+    `
+  const unchanged =
+    diff.added.length + diff.changed.length + diff.removed.length === 0
+
+  container.innerHTML = `
+    <div class="section import-preview">
+      <div class="section-header">
+        <h2 class="section-title">Import preview</h2>
+      </div>
+      <div class="button-group">
+        <label class="import-mode">
+          <input type="radio" name="import-mode" value="merge" ${preview.mode === 'merge' ? 'checked' : ''} />
+          Merge
+        </label>
+        <label class="import-mode">
+          <input type="radio" name="import-mode" value="replace" ${preview.mode === 'replace' ? 'checked' : ''} />
+          Replace
+        </label>
+      </div>
+      ${renderKeys('Added', diff.added, 'import-diff-added')}
+      ${renderKeys('Changed', diff.changed, 'import-diff-changed')}
+      ${renderKeys('Removed', diff.removed, 'import-diff-removed')}
+      ${unchanged ? '<div class="empty-state-description">No token changes</div>' : ''}
+      <div class="button-group">
+        <button class="btn btn-primary btn-sm" data-import-action="apply">Import</button>
+        <button class="btn btn-secondary btn-sm" data-import-action="cancel">Cancel</button>
+      </div>
+    </div>
+  `
+}
+
+// Render the bookmarks importer: folder picker and one row per bookmark
+function renderBookmarkImport() {
+  const container = document.getElementById('bookmark-import')
+  if (!container) return
+
+  const state = appState.bookmarkImport
+  if (!state) {
+    container.innerHTML = ''
+    return
+  }
+
+  const conflictLabels = {
+    new: '',
+    duplicate: 'Already added',
+    conflict: 'Replaces existing'
+  }
+  const selectedCount = state.candidates.filter(
+    candidate => candidate.selected
+  ).length
+
+  container.innerHTML = `
+    <div class="section import-preview">
+      <div class="section-header">
+        <h2 class="section-title">Import from bookmarks</h2>
+      </div>
+      <select class="input" data-bookmark-folder title="Bookmark folder">
+        ${state.folders
+          .map(
+            folder => `
+          <option value="${escapeHtml(folder.id)}" ${folder.id === state.folderId ? 'selected' : ''}>
+            ${escapeHtml(folder.path)} (${folder.bookmarkCount})
+          </option>
+        `
+          )
+          .join('')}
+      </select>
+      ${
+        state.candidates.length === 0
+          ? '<div class="empty-state-description">No bookmarks in this folder</div>'
+          : `<ul class="bookmark-list">
+        ${state.candidates
+          .map(
+            candidate => `
+          <li class="bookmark-item">
+            <input type="checkbox" data-bookmark-select="${escapeHtml(candidate.id)}" ${candidate.selected ? 'checked' : ''} title="Import this bookmark" />
+            <input type="text" class="input input-inline" data-bookmark-key="${escapeHtml(candidate.id)}" value="${escapeHtml(candidate.key)}" title="Token key" />
+            <span class="bookmark-url" title="${escapeHtml(candidate.title)}">${escapeHtml(candidate.url)}</span>
+            ${candidate.conflict !== 'new' ? `<span class="bookmark-conflict bookmark-conflict-${candidate.conflict}">${conflictLabels[candidate.conflict]}</span>` : ''}
+          </li>
+        `
+          )
+          .join('')}
+      </ul>`
+      }
+      <div class="button-group">
+        <button class="btn btn-primary btn-sm" data-bookmark-action="apply" ${selectedCount === 0 ? 'disabled' : ''}>
+          Import ${selectedCount}
+        </button>
+        <button class="btn btn-secondary btn-sm" data-bookmark-action="cancel">Cancel</button>
+      </div>
+    </div>
+  `
+}
+
+// Render the team config URL, last sync and the read-only subscribed tokens
+function renderSubscription() {
+  const container = document.getElementById('subscription-status')
+  const input = document.getElementById(
+    'subscribe-url'
+  ) as HTMLInputElement | null
+  if (!container || !input || !appState.config) return
+
+  const url = appState.config.settings.subscribeUrl
+  // Don't overwrite a URL the user is typing
+  if (document.activeElement !== input) input.value = url
+
+  const state = appState.subscription
+  if (!url || !state || state.url !== url) {
+    container.innerHTML = url
+      ? '<div class="usage-text">Waiting for first sync</div>'
+      : ''
+    return
+  }
+
+  const keys = Object.keys(state.tokens)
+  // Personal tokens with the same key take precedence
+  const personal = resolveTokenMap({
+    ...appState.config,
+    subscribedTokens: undefined
+  })
+
+  container.innerHTML = `
+    <div class="usage-text">
+      ${state.lastSync ? `${keys.length} token${keys.length === 1 ? '' : 's'}, last synced ${escapeHtml(new Date(state.lastSync).toLocaleString())}` : 'Never synced'}
+    </div>
+    ${state.error ? `<div class="usage-text subscription-error">Last sync failed: ${escapeHtml(state.error)}</div>` : ''}
+    ${
+      keys.length > 0
+        ? `<ul class="recent-list">
+      ${keys
+        .map(
+          key => `
+        <li class="recent-item" title="${escapeHtml(state.tokens[key].value)}">
+          <span class="recent-input">${escapeHtml(key)}</span>
+          <span class="recent-count">${personal[key] ? 'overridden' : escapeHtml(state.tokens[key].value)}</span>
+        </li>
+      `
+        )
+        .join('')}
+    </ul>`
+        : ''
+    }
+  `
+}
+
+// Options for a settings select, with an optional leading "unset" option
+function renderOptions(
+  labels: Record<string, string>,
+  selected?: string,
+  emptyLabel?: string
+): string {
+  const options = Object.keys(labels).map(
+    value =>
+      `<option value="${value}"${value === selected ? ' selected' : ''}>${escapeHtml(labels[value])}</option>`
+  )
+  if (emptyLabel !== undefined) {
+    options.unshift(
+      `<option value=""${selected ? '' : ' selected'}>${escapeHtml(emptyLabel)}</option>`
+    )
+  }
+  return options.join('')
+}
+
+// Render the settings fields and the open mode of each base token
+function renderSettings() {
+  const container = document.getElementById('token-dispositions')
+  if (!container || !appState.config) return
+
+  const { settings } = appState.config
+  const fields: EditableSetting[] = [
+    'defaultDisposition',
+    'fallback',
+    'fallbackSearchUrl'
+  ]
+  for (const field of fields) {
+    const input = document.querySelector(
+      `[data-setting="${field}"]`
+    ) as HTMLInputElement | null
+    // Don't overwrite a URL the user is typing
+    if (input && document.activeElement !== input) {
+      input.value = settings[field]
+    }
+  }
+
+  const toggles = document.querySelectorAll<HTMLInputElement>(
+    '[data-setting-toggle]'
+  )
+  for (const toggle of toggles) {
+    const name = toggle.getAttribute('data-setting-toggle') as ToggleSetting
+    toggle.checked = settings[name]
+  }
+
+  const searchGroup = document.getElementById('fallback-search-group')
+  if (searchGroup) {
+    searchGroup.classList.toggle('hidden', settings.fallback !== 'search')
+  }
+
+  // Base and multi-URL shortcuts are the ones that open tabs
+  const tokens = appState.tokens
+  const keys = Object.keys(tokens).filter(
+    key => isBaseUrl(tokens[key].value) || isMultiUrl(tokens[key].value)
+  )
+  if (keys.length === 0) {
+    container.innerHTML = ''
+    return
+  }
+
+  container.innerHTML = `
+    <div class="label">Open mode and tab group per shortcut</div>
+    <ul class="recent-list">
+      ${keys
+        .map(
+          key => `
+        <li class="recent-item">
+          <span class="recent-input">${escapeHtml(key)}</span>
+          <span class="token-settings">
+            <select class="input disposition-select" data-token-disposition="${escapeHtml(key)}" aria-label="Open ${escapeHtml(key)} in">
+              ${renderOptions(DISPOSITION_LABELS, tokens[key].disposition, 'Default')}
+            </select>
+            ${
+              isMultiUrl(tokens[key].value)
+                ? `<select class="input disposition-select" data-token-group="${escapeHtml(key)}" aria-label="Tab group for ${escapeHtml(key)}">
+              ${renderOptions(GROUP_COLOR_LABELS, tokens[key].group?.color, 'No group')}
+            </select>`
+                : ''
+            }
+          </span>
+        </li>
+      `
+        )
+        .join('')}
+    </ul>
+  `
+}
+
+// Render how much of the sync quota the config takes
+function renderStorageUsage() {
+  const container = document.getElementById('storage-usage')
+  if (!container || !appState.config) return
+
+  const usage = storageManager.getStorageUsage(appState.config)
+  const percent = Math.min(
+    100,
+    Math.round((usage.bytesUsed / usage.quotaBytes) * 100)
+  )
+  const overQuota = usage.area === 'local'
+
+  container.innerHTML = `
+    <div class="usage-bar${overQuota ? ' usage-bar-over' : ''}">
+      <div class="usage-bar-fill" style="width: ${percent}%;"></div>
+    </div>
+    <div class="usage-text">
+      ${formatBytes(usage.bytesUsed)} of ${formatBytes(usage.quotaBytes)} sync storage (${percent}%)
+      ${overQuota ? '<br/>Over the sync limit - saved on this device only. Edits made on other devices are ignored here until it fits again' : ''}
+    </div>
+  `
+}
+
+// Render recent navigations with their use counts
+function renderRecentList() {
+  const container = document.getElementById('recent-container')
+  if (!container) return
+
+  if (appState.recent.length === 0) {
+    container.innerHTML = `
+      <div class="empty-state-description">No recent navigations</div>
+    `
+    return
+  }
+
+  container.innerHTML = `
+    <ul class="recent-list">
+      ${appState.recent
+        .map(
+          entry => `
+        <li class="recent-item" title="${escapeHtml(entry.url)}">
+          <span class="recent-input">${escapeHtml(entry.input)}</span>
+          <span class="recent-count">${entry.count}×</span>
+        </li>
+      `
+        )
+        .join('')}
+    </ul>
+  `
+}
+
+/* ========================================
+ * 7. DOM MANIPULATION & RENDERING
+ * ======================================== */
+
+// Create the main UI structure
+function createUIStructure() {
+  const root = document.getElementById('devnav-root')
+  if (!root) {
+    console.error('Root element not found')
+    return
+  }
+
+  root.innerHTML = `
+    <div class="card">
+      <div class="card-header">
+        <h1 class="card-title">DevNav - URL Shortcuts</h1>
+        <p class="card-description">Configure URL shortcuts for fast navigation. Use pattern @base-dynamic-@path</p>
+      </div>
+      <div class="card-content">
+        <!-- Action buttons -->
+        <div class="button-group">
+          <select class="input export-format" id="export-format" title="Export format">
+            <option value="json">JSON</option>
+            <option value="html">Bookmarks (HTML)</option>
+            <option value="markdown">Markdown table</option>
+            <option value="csv">CSV</option>
+          </select>
+          <button class="btn btn-outline" id="export-btn" title="Export configuration">
+            ${uploadIcon}
+          </button>
+          <button class="btn btn-outline" id="import-btn" title="Import configuration (JSON or CSV)">
+            ${downloadIcon}
+          </button>
+          <button class="btn btn-outline" id="bookmark-import-btn" title="Import from bookmarks">
+            ${bookmarkIcon}
+          </button>
+          <button class="btn btn-destructive" id="clear-all-btn" title="Clear all data">
+            ${trashIcon}
+          </button>
+        </div>
+
+        <!-- Pending import -->
+        <div id="import-preview"></div>
+
+        <!-- Bookmarks importer -->
+        <div id="bookmark-import"></div>
+
+        <!-- Profile switcher -->
+        <div class="input-row">
+          <div class="form-group" style="flex: 1;">
+            <label class="label" for="profile-select">Profile</label>
+            <select id="profile-select" class="input" title="Tokens in the active profile take precedence over global tokens"></select>
+          </div>
+          <div class="form-group">
+            <button class="btn btn-outline" id="add-profile-btn" title="New profile">
+              ${plusIcon}
+            </button>
+          </div>
+          <div class="form-group">
+            <button class="btn btn-outline" id="delete-profile-btn" title="Delete profile">
+              ${trashIcon}
+            </button>
+          </div>
+        </div>
+
+        <!-- Add token form -->
+        <form class="form" id="token-form">
+          <div class="input-row">
+            <div class="form-group" style="flex: 1;">
+              <label class="label" for="token-key">Shortcut Key</label>
+              <input
+                type="text"
+                id="token-key"
+                class="input"
+                placeholder="e.g., api"
+                required
+              />
+            </div>
+            <div class="form-group" style="flex: 2;">
+              <label class="label" for="token-value">URL Value</label>
+              <input
+                type="text"
+                id="token-value"
+                class="input"
+                placeholder="e.g., https://api.example.com"
+                required
+              />
+            </div>
+            <div class="form-group">
+              <button type="submit" class="btn btn-primary" style="margin-top: 24px;" title="Add shortcut">
+                ${plusIcon}
+              </button>
+            </div>
+          </div>
+        </form>
+
+        <!-- Tokens display -->
+        <div id="tokens-container">
+          <!-- Tokens will be rendered here -->
+        </div>
+
+        <!-- Environment switching -->
+        <div class="section">
+          <div class="section-header">
+            <h2 class="section-title">Open this page on</h2>
+          </div>
+          <div id="environment-container">
+            <!-- Environment buttons will be rendered here -->
+          </div>
+        </div>
+
+        <!-- Recent navigations -->
+        <div class="section">
+          <div class="section-header">
+            <h2 class="section-title">Recent</h2>
+            <button class="btn btn-secondary btn-sm" id="clear-recent-btn" title="Clear recent navigations">
+              Clear
+            </button>
+          </div>
+          <div id="recent-container">
+            <!-- Recent navigations will be rendered here -->
+          </div>
+        </div>
+
+        <!-- Team config subscription -->
+        <div class="section">
+          <div class="section-header">
+            <h2 class="section-title">Team config</h2>
+            <button class="btn btn-secondary btn-sm" id="sync-subscription-btn" title="Fetch the team config now">
+              Sync now
+            </button>
+          </div>
+          <div class="input-row">
+            <div class="form-group" style="flex: 1;">
+              <input
+                type="url"
+                id="subscribe-url"
+                class="input"
+                placeholder="e.g., https://example.com/devnav.json"
+                title="Shared tokens from this URL sit under your own and refresh hourly"
+              />
+            </div>
+            <div class="form-group">
+              <button class="btn btn-outline" id="subscribe-btn" title="Save team config URL">
+                ${checkIcon}
+              </button>
+            </div>
+          </div>
+          <div id="subscription-status">
+            <!-- Last sync and subscribed tokens will be rendered here -->
+          </div>
+        </div>
+
+        <!-- Settings -->
+        <div class="section">
+          <div class="section-header">
+            <h2 class="section-title">Settings</h2>
+          </div>
+          <div class="settings" id="settings-container">
+            <div class="form-group">
+              <label class="label" for="default-disposition">Open shortcuts in</label>
+              <select id="default-disposition" class="input" data-setting="defaultDisposition" title="Alt+Enter or a trailing ! still opens a new tab">
+                ${renderOptions(DISPOSITION_LABELS)}
+              </select>
+            </div>
+            <div class="form-group">
+              <label class="label" for="fallback-select">When input doesn't resolve</label>
+              <select id="fallback-select" class="input" data-setting="fallback">
+                ${renderOptions(FALLBACK_LABELS)}
+              </select>
+            </div>
+            <div class="form-group" id="fallback-search-group">
+              <label class="label" for="fallback-search-url">Search URL</label>
+              <input
+                type="url"
+                id="fallback-search-url"
+                class="input"
+                data-setting="fallbackSearchUrl"
+                placeholder="e.g., https://www.google.com/search?q=%s"
+                title="%s is replaced with the input"
+              />
+            </div>
+            <label class="label setting-toggle">
+              <input type="checkbox" data-setting-toggle="showDescriptions" />
+              Highlight shortcuts and URLs in omnibox suggestions
+            </label>
+            <div id="token-dispositions">
+              <!-- Per-token open modes will be rendered here -->
+            </div>
+          </div>
+        </div>
+
+        <!-- Storage quota -->
+        <div class="section">
+          <div class="section-header">
+            <h2 class="section-title">Storage</h2>
+          </div>
+          <div id="storage-usage">
+            <!-- Quota usage will be rendered here -->
+          </div>
+        </div>
+      </div>
+    </div>
+
+    <!-- Undo toast -->
+    <div id="toast" class="toast hidden" role="status"></div>
+  `
+}
+
+// Main render function
+function renderUI() {
+  if (!isInitialized) return
+
+  // Update loading state
+  const root = document.getElementById('devnav-root')
+  if (!root) return
+
+  if (appState.loading) {
+    root.classList.add('loading')
+  } else {
+    root.classList.remove('loading')
+  }
+
+  // Render pending import diff
+  renderImportPreview()
+
+  // Render bookmarks importer
+  renderBookmarkImport()
+
+  // Render profile switcher
+  renderProfileSelect()
+
+  // Render token badges
+  renderTokenBadges()
+
+  // Render environment switch buttons
+  renderEnvironmentButtons()
+
+  // Render recent navigations
+  renderRecentList()
+
+  // Render team config subscription
+  renderSubscription()
+
+  // Render settings
+  renderSettings()
+
+  // Render storage quota usage
+  renderStorageUsage()
+}
 
 // Attach event listeners after DOM creation
 function attachEventListeners() {
@@ -533,6 +1830,121 @@ function attachEventListeners() {
   if (importBtn) importBtn.addEventListener('click', handleImportConfig)
   if (clearAllBtn) clearAllBtn.addEventListener('click', handleClearAllData)
 
+  // Environment buttons are re-rendered, so delegate from the container
+  const environmentContainer = document.getElementById('environment-container')
+  if (environmentContainer)
+    environmentContainer.addEventListener('click', event => {
+      const button = (event.target as HTMLElement).closest(
+        '[data-environment-key]'
+      )
+      const key = button?.getAttribute('data-environment-key')
+      if (key) handleSwitchEnvironment(key)
+    })
+
+  // Import preview is re-rendered, so delegate from the container
+  const importPreview = document.getElementById('import-preview')
+  if (importPreview) {
+    importPreview.addEventListener('click', event => {
+      const button = (event.target as HTMLElement).closest(
+        '[data-import-action]'
+      )
+      const action = button?.getAttribute('data-import-action')
+      if (action === 'apply') handleApplyImport()
+      if (action === 'cancel') updateState({ importPreview: null })
+    })
+    importPreview.addEventListener('change', event => {
+      const target = event.target as HTMLInputElement
+      if (target.name === 'import-mode' && appState.importPreview) {
+        updateState({
+          importPreview: {
+            ...appState.importPreview,
+            mode: target.value as ImportMode
+          }
+        })
+      }
+    })
+  }
+
+  const bookmarkImportBtn = document.getElementById('bookmark-import-btn')
+  if (bookmarkImportBtn)
+    bookmarkImportBtn.addEventListener('click', handleOpenBookmarkImport)
+
+  // Bookmarks importer is re-rendered, so delegate from the container
+  const bookmarkImport = document.getElementById('bookmark-import')
+  if (bookmarkImport) {
+    bookmarkImport.addEventListener('click', event => {
+      const button = (event.target as HTMLElement).closest(
+        '[data-bookmark-action]'
+      )
+      const action = button?.getAttribute('data-bookmark-action')
+      if (action === 'apply') handleApplyBookmarkImport()
+      if (action === 'cancel') updateState({ bookmarkImport: null })
+    })
+    // Keys are committed on change rather than input so typing keeps focus
+    bookmarkImport.addEventListener('change', event => {
+      const target = event.target as HTMLInputElement
+      if (target.hasAttribute('data-bookmark-folder')) {
+        handleBookmarkFolderChange(target.value)
+      }
+
+      const selectId = target.getAttribute('data-bookmark-select')
+      if (selectId) {
+        updateBookmarkCandidate(selectId, { selected: target.checked })
+      }
+
+      const keyId = target.getAttribute('data-bookmark-key')
+      if (keyId) updateBookmarkCandidate(keyId, { key: target.value })
+    })
+  }
+
+  // Undo/redo shortcuts
+  document.addEventListener('keydown', handleUndoShortcut)
+
+  // Team config subscription
+  const subscribeBtn = document.getElementById('subscribe-btn')
+  const syncSubscriptionBtn = document.getElementById('sync-subscription-btn')
+
+  if (subscribeBtn)
+    subscribeBtn.addEventListener('click', handleSaveSubscription)
+  if (syncSubscriptionBtn)
+    syncSubscriptionBtn.addEventListener('click', handleSyncSubscription)
+
+  // Settings and per-token open modes - the token list is re-rendered, so delegate
+  const settingsContainer = document.getElementById('settings-container')
+  if (settingsContainer)
+    settingsContainer.addEventListener('change', event => {
+      const target = event.target as HTMLInputElement
+      const setting = target.getAttribute('data-setting')
+      if (setting) {
+        handleSettingChange(setting as EditableSetting, target.value)
+      }
+
+      const toggle = target.getAttribute('data-setting-toggle')
+      if (toggle) {
+        handleSettingToggle(toggle as ToggleSetting, target.checked)
+      }
+
+      const tokenKey = target.getAttribute('data-token-disposition')
+      if (tokenKey) handleTokenDispositionChange(tokenKey, target.value)
+
+      const groupKey = target.getAttribute('data-token-group')
+      if (groupKey) handleTokenGroupChange(groupKey, target.value)
+    })
+
+  const clearRecentBtn = document.getElementById('clear-recent-btn')
+  if (clearRecentBtn)
+    clearRecentBtn.addEventListener('click', handleClearHistory)
+
+  // Profile switcher
+  const profileSelect = document.getElementById('profile-select')
+  const addProfileBtn = document.getElementById('add-profile-btn')
+  const deleteProfileBtn = document.getElementById('delete-profile-btn')
+
+  if (profileSelect) profileSelect.addEventListener('change', handleProfileChange)
+  if (addProfileBtn) addProfileBtn.addEventListener('click', handleAddProfile)
+  if (deleteProfileBtn)
+    deleteProfileBtn.addEventListener('click', handleDeleteProfile)
+
   // Form submission
   const tokenForm = document.getElementById('token-form')
   if (tokenForm) tokenForm.addEventListener('submit', handleFormSubmit)
@@ -549,6 +1961,29 @@ function attachEventListeners() {
  * 8. ERROR HANDLING & NOTIFICATIONS
  * ======================================== */
 
+// Show a short-lived message, optionally with an action button such as "Undo"
+function showToast(message: string, actionLabel?: string, action?: () => void) {
+  const toast = document.getElementById('toast')
+  if (!toast) return
+
+  toast.innerHTML = `
+    <span class="toast-message">${escapeHtml(message)}</span>
+    ${actionLabel ? `<button class="toast-action" id="toast-action">${escapeHtml(actionLabel)}</button>` : ''}
+  `
+  toast.classList.remove('hidden')
+
+  const actionBtn = document.getElementById('toast-action')
+  if (actionBtn && action) {
+    actionBtn.addEventListener('click', () => {
+      toast.classList.add('hidden')
+      action()
+    })
+  }
+
+  if (toastTimer) clearTimeout(toastTimer)
+  toastTimer = setTimeout(() => toast.classList.add('hidden'), UNDO.TOAST_MS)
+}
+
 // Global error handler
 function handleError(error: any, userMessage: string) {
   console.error('DevNav Error:', error)
@@ -582,14 +2017,40 @@ async function initializeApp() {
     initializeTheme()
 
     // Initialize storage manager
-    storageManager = new SimpleStorageManager()
-
-    // Load initial configuration
-    const config = await storageManager.getConfig()
+    storageManager = new StorageManager()
+    historyManager = new HistoryManager()
+    undoHistory = new UndoHistory()
+    bookmarkImporter = new BookmarkImporter()
+    subscriptionManager = new SubscriptionManager()
+
+    // Load initial configuration and recent navigations; a config another
+    // device is still syncing stays loading until onConfigChanged delivers it
+    const config = await storageManager.getConfig().catch(error => {
+      console.warn('Configuration not readable yet:', error)
+      return null
+    })
     updateState({
       config: config,
-      tokens: config?.tokens || {},
-      loading: false
+      tokens: config ? getScopeTokens(config) : {},
+      recent: await historyManager.getEntries(),
+      subscription: await subscriptionManager.getState(),
+      loading: !config
+    })
+
+    // Edits from the background, another window or another device re-render live,
+    // as do refreshes of the team config
+    storageManager.onConfigChanged(async ({ config: changedConfig }) => {
+      updateState({
+        config: changedConfig,
+        tokens: getScopeTokens(changedConfig),
+        subscription: await subscriptionManager.getState(),
+        loading: false
+      })
+    })
+
+    // Navigations from the omnibox update the recent list live
+    historyManager.onHistoryChanged(entries => {
+      updateState({ recent: entries })
     })
 
     // Create UI structure
@@ -604,6 +2065,17 @@ async function initializeApp() {
     // Initial render
     renderUI()
 
+    // Pick up a draft from the omnibox, now or while the panel stays open
+    await applyDraftToken()
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (
+        areaName === 'session' &&
+        changes[STORAGE_KEYS.DRAFT_TOKEN]?.newValue
+      ) {
+        applyDraftToken()
+      }
+    })
+
     console.log('DevNav initialized successfully')
   } catch (error) {
     console.error('Failed to initialize DevNav:', error)
@@ -1,10 +1,43 @@
 // Core configuration interfaces
 export interface Token {
   value: string
+  // Overrides settings.defaultDisposition when this token is the input's base
+  disposition?: NavigationDisposition
+  // Multi-URL tokens only: collect the opened tabs into a tab group
+  group?: TabGroupOptions
+}
+
+export type TabGroupColor =
+  | 'grey'
+  | 'blue'
+  | 'red'
+  | 'yellow'
+  | 'green'
+  | 'pink'
+  | 'purple'
+  | 'cyan'
+  | 'orange'
+
+export interface TabGroupOptions {
+  // Defaults to the token key
+  title?: string
+  color: TabGroupColor
+  collapsed?: boolean
+}
+
+export interface Profile {
+  tokens: Record<string, Token>
 }
 
 export interface DevNavigatorConfig {
+  // Global tokens, shared by every profile
   tokens: Record<string, Token>
+  // Named token maps that take precedence over the global map when active
+  profiles?: Record<string, Profile>
+  activeProfile?: string
+  // Read-only tokens from settings.subscribeUrl, layered under the global map.
+  // Filled in from the local subscription cache when read; never saved
+  subscribedTokens?: Record<string, Token>
   settings: ExtensionSettings
   version: string
 }
@@ -13,18 +46,59 @@ export interface ExtensionSettings {
   trigger: string
   defaultDisposition: NavigationDisposition
   showDescriptions: boolean
+  // Shared team config to fetch periodically, '' when not subscribed
+  subscribeUrl: string
+  // What Enter does when the input doesn't resolve to a URL
+  fallback: FallbackAction
+  // Template with %s or {query}, used when fallback is 'search'
+  fallbackSearchUrl: string
+}
+
+// search: fallbackSearchUrl, newToken: side panel with the input as a draft token,
+// notify: error notification only, defaultSearch: the browser's search engine
+export type FallbackAction = 'search' | 'newToken' | 'notify' | 'defaultSearch'
+
+// Token the side panel should prefill its form with, left by the newToken fallback
+export interface DraftToken {
+  key: string
+  value: string
 }
 
 // URL parsing and construction
+
+// One whitespace-separated piece of omnibox input, quotes and escapes resolved
+export interface InputSegment {
+  text: string
+  // 1-based column of the segment's first character in the input
+  column: number
+  // Some or all of the segment was quoted - quoted segments never resolve to tokens
+  quoted: boolean
+}
+
+export interface ParsedToken {
+  key: string
+  value: string
+  isResolved: boolean
+  // Dynamic segments consumed to fill this token's placeholders
+  args?: string[]
+  // Search text substituted into a %s or {query} template
+  query?: string
+}
+
 export interface ParsedInput {
-  tokens: Array<{
-    key: string
-    value: string
-    isResolved: boolean
-  }>
+  tokens: ParsedToken[]
   isValid: boolean
   errors: ValidationError[]
   originalInput: string
+  // Placeholder names still waiting for a dynamic segment, e.g. ['ticket']
+  missingPlaceholders: string[]
+  // Profile the keys were resolved against, if any
+  profile?: string
+  // Input ended with OMNIBOX_COMMANDS.NEW_TAB_SUFFIX ("dev api!")
+  forceNewTab?: boolean
+  // Multi-URL tokens: the input parsed once per member, and the token's key
+  members?: ParsedInput[]
+  multiToken?: string
 }
 
 export interface ConstructedUrl {
@@ -34,15 +108,108 @@ export interface ConstructedUrl {
   content: string
 }
 
+// Omnibox completion
+export interface TokenMatch {
+  key: string
+  score: number
+}
+
+// Navigation history (chrome.storage.local)
+export interface HistoryEntry {
+  input: string // Normalized omnibox input, e.g. "dev 4821 admin"
+  url: string
+  tokens: string[] // Resolved token keys used
+  count: number
+  lastUsed: number // Timestamp (ms)
+}
+
+// Where and how large the stored config is
+export interface StorageUsage {
+  area: 'sync' | 'local' // 'local' when the config no longer fits chrome.storage.sync
+  bytesUsed: number
+  quotaBytes: number
+  items: number
+}
+
+// Side panel undo/redo (chrome.storage.session)
+export interface ConfigSnapshot {
+  label: string // e.g. "Deleted 'prod'"
+  config: DevNavigatorConfig
+  timestamp: number
+}
+
+export interface UndoStacks {
+  undo: ConfigSnapshot[]
+  redo: ConfigSnapshot[]
+}
+
+// Last fetch of settings.subscribeUrl (chrome.storage.local, per device)
+export interface SubscriptionState {
+  url: string
+  // Tokens from the last successful fetch - kept when a later fetch fails
+  tokens: Record<string, Token>
+  lastSync: number | null
+  lastAttempt: number
+  error: string | null
+}
+
+// Config as it was before a migration ran (chrome.storage.local)
+export interface ConfigBackup {
+  fromVersion: string
+  backedUp: string // ISO timestamp
+  config: unknown
+}
+
 // Import/Export configuration
 export interface ConfigExport {
   devNavigator: {
+    // Export file layout (EXPORT_FORMAT); absent in files from older versions
+    format?: number
+    // Config schema version of the exported tokens
     version: string
     exported: string
     tokens: Record<string, Token>
+    profiles?: Record<string, Profile>
+    settings?: ExtensionSettings
   }
 }
 
+// File formats the side panel can export; json and csv can be imported back
+export type ExportFormat = 'json' | 'html' | 'markdown' | 'csv'
+
+// merge keeps tokens missing from the file; replace drops them
+export type ImportMode = 'merge' | 'replace'
+
+// Token keys an import would touch - profile tokens as "profile:key"
+export interface ImportPreview {
+  added: string[]
+  changed: string[]
+  removed: string[]
+}
+
+// Bookmark folder offered by the bookmarks importer
+export interface BookmarkFolder {
+  id: string
+  // Titles from the root, e.g. "Bookmarks bar / Environments"
+  path: string
+  // Bookmarks directly inside the folder
+  bookmarkCount: number
+}
+
+// 'new' - key is free, 'duplicate' - same key and URL already exist,
+// 'conflict' - key exists with a different URL and would be replaced
+export type BookmarkConflict = 'new' | 'duplicate' | 'conflict'
+
+export interface BookmarkCandidate {
+  id: string
+  title: string
+  url: string
+  // Proposed token key, editable before importing
+  key: string
+  conflict: BookmarkConflict
+  selected: boolean
+}
+
 // Chrome extension types
 export type NavigationDisposition =
   | 'currentTab'
@@ -53,6 +220,8 @@ export interface ValidationError {
   field: string
   message: string
   code: string
+  // 1-based column in the input the error points at, when it has one
+  column?: number
 }
 
 // Storage-related types
@@ -66,6 +235,9 @@ export interface DefaultConfig extends DevNavigatorConfig {
     trigger: '>'
     defaultDisposition: 'currentTab'
     showDescriptions: true
+    subscribeUrl: ''
+    fallback: 'search'
+    fallbackSearchUrl: 'https://www.google.com/search?q=%s'
   }
   version: '1.0.0'
 }
@@ -1,25 +1,11 @@
-import type { ConfigExport, DevNavigatorConfig } from './index'
-
-// Storage keys
-export const STORAGE_KEYS = {
-  CONFIG: 'dev_navigator_config' as const
-}
-
-// Default configuration
-export const DEFAULT_CONFIG: DevNavigatorConfig = {
-  tokens: {
-    dev: { value: 'https://localhost:3000' },
-    prod: { value: 'https://myapp.com' },
-    api: { value: 'api/v1' },
-    admin: { value: 'admin/dashboard' }
-  },
-  settings: {
-    trigger: '>',
-    defaultDisposition: 'currentTab',
-    showDescriptions: true
-  },
-  version: '1.0.0'
-}
+import type {
+  ConfigExport,
+  DevNavigatorConfig,
+  ImportMode,
+  NavigationDisposition,
+  StorageUsage,
+  TabGroupOptions
+} from './index'
 
 // Re-export DevNavigatorConfig for convenience
 export type { DevNavigatorConfig }
@@ -34,13 +20,29 @@ export interface StorageArea {
   clear(): Promise<void>
 }
 
-// Storage manager interface
+// Storage manager interface - shared by the background and the side panel
 export interface IStorageManager {
   getConfig(): Promise<DevNavigatorConfig>
   saveConfig(config: DevNavigatorConfig): Promise<void>
   exportConfig(): Promise<ConfigExport>
-  importConfig(exported: ConfigExport): Promise<void>
+  importConfig(exported: ConfigExport, mode?: ImportMode): Promise<void>
   resetConfig(): Promise<void>
+  setToken(key: string, value: string, profile?: string): Promise<void>
+  setTokenDisposition(
+    key: string,
+    disposition: NavigationDisposition | undefined,
+    profile?: string
+  ): Promise<void>
+  setTokenGroup(
+    key: string,
+    group: TabGroupOptions | undefined,
+    profile?: string
+  ): Promise<void>
+  removeToken(key: string, profile?: string): Promise<void>
+  renameToken(oldKey: string, newKey: string, profile?: string): Promise<void>
+  updateSettings(settings: Partial<DevNavigatorConfig['settings']>): Promise<void>
+  getStorageUsage(config: DevNavigatorConfig): StorageUsage
+  onConfigChanged(listener: ConfigChangeListener): () => void
 }
 
 // Storage events
@@ -48,3 +50,11 @@ export interface StorageChangeEvent {
   changes: Record<string, chrome.storage.StorageChange>
   areaName: string
 }
+
+// Emitted when the stored config changes in any context or on another device
+export interface ConfigChangeEvent {
+  config: DevNavigatorConfig
+  areaName: 'sync' | 'local'
+}
+
+export type ConfigChangeListener = (event: ConfigChangeEvent) => void
@@ -2,16 +2,26 @@ import type { DevNavigatorConfig } from '../types';
 
 export const STORAGE_KEYS = {
   CONFIG: 'dev_navigator_config',
+  HISTORY: 'dev_navigator_history', // chrome.storage.local - per-device, never synced
+  CONFIG_BACKUP: 'dev_navigator_config_backup', // chrome.storage.local - config as it was before the last migration
+  CONFIG_CHUNK_PREFIX: 'dev_navigator_config_chunk_', // chrome.storage.sync - config JSON split into numbered items
+  UNDO: 'dev_navigator_undo', // chrome.storage.session - side panel undo/redo snapshots
+  SUBSCRIPTION: 'dev_navigator_subscription', // chrome.storage.local - last fetch of the subscribed team config
+  DRAFT_TOKEN: 'dev_navigator_draft_token', // chrome.storage.session - token for the side panel form to prefill
 } as const;
 
 export const DEFAULT_CONFIG: DevNavigatorConfig = {
   tokens: {},
+  profiles: {},
   settings: {
     trigger: '>',
     defaultDisposition: 'currentTab',
     showDescriptions: true,
+    subscribeUrl: '',
+    fallback: 'search',
+    fallbackSearchUrl: 'https://www.google.com/search?q=%s',
   },
-  version: '1.0.0',
+  version: '1.2.0', // Keep in sync with the last entry in core/migrations.ts
 };
 
 export const VALIDATION_ERRORS = {
@@ -20,12 +30,67 @@ export const VALIDATION_ERRORS = {
   INVALID_URL: 'INVALID_URL',
   INVALID_FORMAT: 'INVALID_FORMAT',
   EMPTY_INPUT: 'EMPTY_INPUT',
+  MISSING_PLACEHOLDER: 'MISSING_PLACEHOLDER',
+  UNKNOWN_PROFILE: 'UNKNOWN_PROFILE',
+  UNTERMINATED_QUOTE: 'UNTERMINATED_QUOTE',
+  REFERENCE_CYCLE: 'REFERENCE_CYCLE',
+  UNKNOWN_REFERENCE: 'UNKNOWN_REFERENCE',
+  MULTIPLE_BASES: 'MULTIPLE_BASES',
 } as const;
 
 export const URL_PATTERNS = {
   HTTP_PROTOCOL: /^https?:\/\//,
   VALID_URL: /^https?:\/\/[^\s$.?#].[^\s]*$/i,
-  TOKEN_KEY_PATTERN: /^[a-zA-Z0-9-]+$/, // Token keys: alphanumeric + dashes, no spaces
-  USER_INPUT_PATTERN: /^[a-zA-Z0-9-\s]+$/, // User input: alphanumeric + dashes + spaces
-  SHORTCUT_PATTERN: /^[a-zA-Z0-9-]+$/, // Legacy compatibility - same as TOKEN_KEY_PATTERN
+  TOKEN_KEY_PATTERN: /^[^\s?#/\\=:@!'"`$%&{}]+$/, // Token keys: letters in any script, digits, dashes etc. - no spaces or input syntax characters
+  TOKEN_KEY_INVALID_CHARS: /[\s?#/\\=:@!'"`$%&{}]/g, // Everything TOKEN_KEY_PATTERN rejects - keep the two in sync
+  USER_INPUT_PATTERN: /^[^\s]+$/, // User input segments: anything but whitespace - dynamic segments are percent-encoded
+  SHORTCUT_PATTERN: /^[a-zA-Z0-9-]+$/, // Legacy compatibility - the original ASCII-only token key pattern
+  PLACEHOLDER: /\{([a-zA-Z0-9_-]+)(?:=([^{}]*))?\}/g, // {1}, {name} or {name=default}
+  QUERY_SEGMENT: /^(\?[^?#]*|[^\s?#=/]+=[^?#/]*)$/, // "?q", "?tab=logs&since=1h" or "tab=logs" - quoted values may hold spaces
+  FRAGMENT_SEGMENT: /^#[^#]*$/, // "#section"
+  MULTI_URL_SEPARATOR: /\s+\|\s+/, // "dev dashboard | https://logs.acme.com/{1}" - members of a multi-URL token
+  TOKEN_REFERENCE: /\$\{([^{}\s]+)\}/g, // "${monitoring}" - another token's value, expanded before placeholders
+  SEARCH_PLACEHOLDER: /%s|\{query\}/g, // "%s" or "{query}" - search tokens take the rest of the input
 } as const;
+
+export const OMNIBOX_COMMANDS = {
+  SWITCH_ENVIRONMENT: '@', // "> @prod" - same page on another base token
+  PROFILE_SUFFIX: ':', // "> payments: dev api" - resolve against one profile
+  RAW_PREFIX: '/', // "> dev /feature/foo" - insert a dynamic segment as written, without encoding
+  NEW_TAB_SUFFIX: '!', // "> dev api!" - open in a new tab whatever the default disposition
+} as const;
+
+export const COMPLETION = {
+  MAX_SUGGESTIONS: 5, // Chrome shows at most a handful of omnibox suggestions
+  PREFIX_SCORE: 100,
+  FUZZY_SCORE: 50,
+  RECENCY_SCORE: 30,
+  RECENCY_HALF_LIFE_MS: 7 * 24 * 60 * 60 * 1000, // One week
+} as const;
+
+export const HISTORY = {
+  MAX_ENTRIES: 200, // Least frecent entries are pruned beyond this
+  MAX_SUGGESTIONS: 3,
+  HALF_LIFE_MS: 7 * 24 * 60 * 60 * 1000, // One week
+} as const;
+
+// chrome.storage.sync limits (bytes = key length + JSON of the value, UTF-8)
+export const SYNC_QUOTA = {
+  BYTES: 102400,
+  BYTES_PER_ITEM: 8192,
+  MAX_ITEMS: 512,
+  SAFETY_MARGIN: 0.95, // Leave headroom for other keys and estimation error
+} as const;
+
+export const UNDO = {
+  MAX_SNAPSHOTS: 20,
+  TTL_MS: 10 * 60 * 1000, // Snapshots survive closing the side panel for ten minutes
+  TOAST_MS: 6000,
+} as const;
+
+export const SUBSCRIPTION = {
+  ALARM: 'devnav-subscription-refresh',
+  REFRESH_MINUTES: 60,
+} as const;
+
+export const EXPORT_FORMAT = 2; // 1 was { version, exportDate, config } from the side panel
@@ -1,4 +1,4 @@
-import type { ValidationError } from '../types';
+import type { DevNavigatorConfig, ParsedToken, Token, ValidationError } from '../types';
 import { URL_PATTERNS } from './constants';
 
 export function isValidUrl(url: string): boolean {
@@ -10,6 +10,42 @@ export function isValidUrl(url: string): boolean {
   }
 }
 
+export function isBaseUrl(value: string): boolean {
+  return URL_PATTERNS.HTTP_PROTOCOL.test(value); // Absolute http(s) values act as base URLs
+}
+
+export function isSearchTemplate(value: string): boolean {
+  return value.search(URL_PATTERNS.SEARCH_PLACEHOLDER) !== -1; // search() ignores the g flag's lastIndex
+}
+
+export function isValidSearchUrl(url: string): boolean {
+  const filled = url.replace(URL_PATTERNS.SEARCH_PLACEHOLDER, 'devnav'); // Any query will do
+  return isSearchTemplate(url) && isValidUrl(filled);
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value); // Plain objects only - arrays are objects too
+}
+
+export function splitMultiUrl(value: string): string[] {
+  return value
+    .split(URL_PATTERNS.MULTI_URL_SEPARATOR)
+    .map(member => member.trim())
+    .filter(member => member.length > 0);
+}
+
+export function isMultiUrl(value: string): boolean {
+  return splitMultiUrl(value).length > 1; // Opens one tab per member
+}
+
+export function resolveTokenMap(
+  config: DevNavigatorConfig,
+  profile: string | undefined = config.activeProfile
+): Record<string, Token> {
+  const profileTokens = (profile && config.profiles?.[profile]?.tokens) || {};
+  return { ...config.subscribedTokens, ...config.tokens, ...profileTokens }; // Profile keys shadow global keys, which shadow subscribed ones
+}
+
 export function isValidShortcut(shortcut: string): boolean {
   return URL_PATTERNS.SHORTCUT_PATTERN.test(shortcut);
 }
@@ -17,7 +53,7 @@ export function isValidShortcut(shortcut: string): boolean {
 export function sanitizeTokenKey(input: string): string {
   return input
     .trim() // Remove spaces
-    .replace(/[^a-zA-Z0-9-]/g, '') // Allow dashes in token keys, remove spaces and special chars
+    .replace(URL_PATTERNS.TOKEN_KEY_INVALID_CHARS, '') // Keep letters in any script, remove spaces and input syntax characters
     .toLowerCase(); // Enforce lowercase for case-insensitive matching
 }
 
@@ -34,12 +70,43 @@ export function sanitizeShortcut(input: string): string {
   return sanitizeTokenKey(input);
 }
 
+export function isValidTokenKey(key: string): boolean {
+  return URL_PATTERNS.TOKEN_KEY_PATTERN.test(key);
+}
+
+function encodeKeepingEscapes(text: string, encode: (part: string) => string): string {
+  return text
+    .split(/(%[0-9A-Fa-f]{2})/) // Odd indexes are existing %XX escapes - keep them so input isn't double-encoded
+    .map((part, index) => (index % 2 === 1 ? part : encode(part)))
+    .join('');
+}
+
+export function encodePathSegment(segment: string): string {
+  return encodeKeepingEscapes(segment, encodeURIComponent); // One segment - "/" becomes %2F
+}
+
+export function encodeQueryString(query: string): string {
+  return query
+    .split('&')
+    .map(pair => {
+      const separator = pair.indexOf('=');
+      if (separator === -1) return encodeKeepingEscapes(pair, encodeURIComponent);
+      return `${encodeKeepingEscapes(pair.slice(0, separator), encodeURIComponent)}=${encodeKeepingEscapes(pair.slice(separator + 1), encodeURIComponent)}`;
+    })
+    .join('&');
+}
+
+export function encodeFragment(fragment: string): string {
+  return encodeKeepingEscapes(fragment, encodeURI); // Keep "/" and "?" for client-side routes like #/logs?id=1
+}
+
 export function createValidationError(
   field: string,
   message: string,
-  code: string
+  code: string,
+  column?: number
 ): ValidationError {
-  return { field, message, code };
+  return column === undefined ? { field, message, code } : { field, message, code, column };
 }
 
 export function joinUrlParts(...parts: string[]): string {
@@ -50,21 +117,62 @@ export function joinUrlParts(...parts: string[]): string {
 }
 
 export function formatDescription(
-  baseKey: string,
-  pathKey?: string,
-  dynamicSegments?: string[]
+  tokens: ParsedToken[],
+  urls: string[] = [],
+  missingPlaceholders: string[] = []
 ): string {
-  const parts = [baseKey];
+  const dim = (text: string) => `<dim>${escapeXml(text)}</dim>`; // Omnibox descriptions are parsed as XML
+  const parts: string[] = [];
+
+  for (const token of tokens) {
+    if (!token.isResolved) {
+      parts.push(dim(token.key));
+      continue;
+    }
 
-  if (dynamicSegments && dynamicSegments.length > 0) {
-    parts.push(...dynamicSegments);
+    parts.push(`<match>${escapeXml(token.key)}</match>`);
+    if (token.query) parts.push(dim(token.query));
+    for (const arg of token.args || []) parts.push(dim(arg));
   }
 
-  if (pathKey) {
-    parts.push(pathKey);
+  parts.push(...missingPlaceholders.map(name => dim(`{${name}}`)));
+
+  if (urls.length > 0) {
+    parts.push(`<dim>→ ${urls.map(url => `<url>${escapeXml(url)}</url>`).join(', ')}</dim>`);
   }
 
-  return `Navigate to: ${parts.join(' → ')}`;
+  return parts.join(' ');
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;') // Must run first so later entities aren't double-escaped
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;'); // &apos; is XML's own entity; omnibox markup isn't HTML
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;') // Must run first so later entities aren't double-escaped
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function getByteSize(text: string): number {
+  let bytes = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) || 0;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4; // UTF-8 encoded length
+  }
+  return bytes;
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
 }
 
 export function getCurrentTimestamp(): string {
@@ -0,0 +1,92 @@
+import { BookmarkImporter } from '../src/core/bookmarks'
+
+describe('BookmarkImporter', () => {
+  const importer = new BookmarkImporter()
+
+  const bookmark = (id: string, title: string, url?: string) => ({
+    id,
+    title,
+    url
+  })
+
+  describe('getFolders', () => {
+    it('should list nested folders with their paths and bookmark counts', async () => {
+      ;(chrome.bookmarks.getTree as jest.Mock).mockResolvedValue([
+        {
+          id: '0',
+          title: '',
+          children: [
+            {
+              id: '1',
+              title: 'Bookmarks bar',
+              children: [
+                bookmark('10', 'News', 'https://news.com'),
+                {
+                  id: '11',
+                  title: 'Environments',
+                  children: [
+                    bookmark('20', 'Dev', 'https://dev.app.com'),
+                    bookmark('21', 'Prod', 'https://app.com')
+                  ]
+                }
+              ]
+            }
+          ]
+        }
+      ])
+
+      expect(await importer.getFolders()).toEqual([
+        { id: '1', path: 'Bookmarks bar', bookmarkCount: 1 },
+        { id: '11', path: 'Bookmarks bar / Environments', bookmarkCount: 2 }
+      ])
+    })
+  })
+
+  describe('buildCandidates', () => {
+    const tokens = {
+      dev: { value: 'https://dev.app.com' },
+      prod: { value: 'https://old.app.com' }
+    }
+
+    it('should derive keys from titles and classify conflicts', () => {
+      const candidates = importer.buildCandidates(
+        [
+          bookmark('1', 'Dev', 'https://dev.app.com'),
+          bookmark('2', 'Prod', 'https://app.com'),
+          bookmark('3', 'Staging Server!', 'https://staging.app.com'),
+          bookmark('4', 'Sub folder')
+        ],
+        tokens
+      )
+
+      expect(
+        candidates.map(({ key, conflict, selected }) => ({
+          key,
+          conflict,
+          selected
+        }))
+      ).toEqual([
+        { key: 'dev', conflict: 'duplicate', selected: false },
+        { key: 'prod', conflict: 'conflict', selected: true },
+        { key: 'stagingserver', conflict: 'new', selected: true }
+      ])
+    })
+
+    it('should fall back to the hostname and de-duplicate keys', () => {
+      const candidates = importer.buildCandidates(
+        [
+          bookmark('1', '', 'https://www.grafana.app.com/d/1'),
+          bookmark('2', 'API', 'https://api.app.com/v1'),
+          bookmark('3', 'api', 'https://api.app.com/v2')
+        ],
+        {}
+      )
+
+      expect(candidates.map(candidate => candidate.key)).toEqual([
+        'grafana',
+        'api',
+        'api-2'
+      ])
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import { TokenCompleter } from '../src/core/completion'
+
+describe('TokenCompleter', () => {
+  const completer = new TokenCompleter()
+  const keys = ['dev', 'prod', 'staging', 'staging-server', 'api', 'admin']
+
+  it('should rank prefix matches with shorter keys first', () => {
+    const matches = completer.rank('sta', keys)
+
+    expect(matches.map(match => match.key)).toEqual([
+      'staging',
+      'staging-server'
+    ])
+  })
+
+  it('should include subsequence matches after prefix matches', () => {
+    const matches = completer.rank('sv', keys)
+
+    expect(matches.map(match => match.key)).toEqual(['staging-server'])
+    expect(completer.rank('a', keys).map(match => match.key)).toEqual([
+      'api',
+      'admin',
+      'staging',
+      'staging-server'
+    ])
+  })
+
+  it('should match case-insensitively', () => {
+    expect(completer.rank('DEV', keys)[0].key).toBe('dev')
+  })
+
+  it('should boost recently used tokens', () => {
+    const matches = completer.rank('sta', keys, {
+      'staging-server': Date.now()
+    })
+
+    expect(matches[0].key).toBe('staging-server')
+  })
+
+  it('should return nothing for an empty or unmatched query', () => {
+    expect(completer.rank('', keys)).toEqual([])
+    expect(completer.rank('xyz', keys)).toEqual([])
+  })
+})
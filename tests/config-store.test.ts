@@ -0,0 +1,81 @@
+import { ConfigStore } from '../src/core/config-store'
+import type { DevNavigatorConfig } from '../src/types'
+import { DEFAULT_CONFIG, SYNC_QUOTA } from '../src/utils/constants'
+import { mockArea } from './mocks'
+
+function configWithTokens(count: number, valueLength: number) {
+  const tokens: DevNavigatorConfig['tokens'] = {}
+  for (let i = 0; i < count; i++) {
+    tokens[`token-${i}`] = {
+      value: `https://example.com/${'é"'.repeat(valueLength / 2)}/${i}`
+    }
+  }
+  return { ...DEFAULT_CONFIG, tokens }
+}
+
+describe('ConfigStore', () => {
+  let sync: Record<string, unknown>
+  let local: Record<string, unknown>
+  let store: ConfigStore
+
+  beforeEach(() => {
+    sync = mockArea(chrome.storage.sync)
+    local = mockArea(chrome.storage.local)
+    store = new ConfigStore()
+  })
+
+  it('should keep small configs as a single sync item', async () => {
+    const usage = await store.write(DEFAULT_CONFIG)
+
+    expect(usage.area).toBe('sync')
+    expect(Object.keys(sync)).toEqual(['dev_navigator_config'])
+    expect(await store.read()).toEqual(DEFAULT_CONFIG)
+  })
+
+  it('should split configs over the per-item quota into chunks', async () => {
+    const config = configWithTokens(100, 200)
+    const usage = await store.write(config)
+
+    expect(usage.area).toBe('sync')
+    expect(usage.items).toBeGreaterThan(2)
+    Object.keys(sync).forEach(key => {
+      const bytes = Buffer.byteLength(key + JSON.stringify(sync[key]))
+      expect(bytes).toBeLessThanOrEqual(SYNC_QUOTA.BYTES_PER_ITEM)
+    })
+    expect(await store.read()).toEqual(config)
+  })
+
+  it('should remove stale chunks when the config shrinks', async () => {
+    await store.write(configWithTokens(100, 200))
+    await store.write(DEFAULT_CONFIG)
+
+    expect(Object.keys(sync)).toEqual(['dev_navigator_config'])
+    expect(await store.read()).toEqual(DEFAULT_CONFIG)
+  })
+
+  it('should fall back to local storage over the total sync quota', async () => {
+    await store.write(DEFAULT_CONFIG)
+    const config = configWithTokens(400, 400)
+    const usage = await store.write(config)
+
+    expect(usage.area).toBe('local')
+    expect(local.dev_navigator_config).toEqual(config)
+    expect(sync.dev_navigator_config).toEqual(DEFAULT_CONFIG)
+    expect(await store.read()).toEqual(config)
+  })
+
+  it('should move back to sync once the config fits again', async () => {
+    await store.write(configWithTokens(400, 400))
+    await store.write(DEFAULT_CONFIG)
+
+    expect(local.dev_navigator_config).toBeUndefined()
+    expect(await store.read()).toEqual(DEFAULT_CONFIG)
+  })
+
+  it('should report incomplete chunks', async () => {
+    await store.write(configWithTokens(100, 200))
+    delete sync.dev_navigator_config_chunk_1
+
+    await expect(store.read()).rejects.toThrow('incomplete')
+  })
+})
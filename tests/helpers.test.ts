@@ -0,0 +1,94 @@
+import type { ParsedToken } from '../src/types'
+import {
+  escapeXml,
+  formatDescription,
+  isValidTokenKey,
+  sanitizeTokenKey
+} from '../src/utils/helpers'
+
+describe('formatDescription', () => {
+  const dev: ParsedToken = {
+    key: 'dev',
+    value: 'https://dev.app.com',
+    isResolved: true
+  }
+
+  it('should highlight keys and dim dynamic segments and the URL', () => {
+    const tokens: ParsedToken[] = [
+      dev,
+      { key: 'users', value: '/users', isResolved: true },
+      { key: '42', value: '42', isResolved: false }
+    ]
+
+    expect(formatDescription(tokens, ['https://dev.app.com/users/42'])).toBe(
+      '<match>dev</match> <match>users</match> <dim>42</dim> ' +
+        '<dim>→ <url>https://dev.app.com/users/42</url></dim>'
+    )
+  })
+
+  it('should show placeholder arguments and search text after their token', () => {
+    const tokens: ParsedToken[] = [
+      { ...dev, args: ['ABC-1'] },
+      {
+        key: 'gh',
+        value: 'https://github.com/search?q=parser%20bug',
+        isResolved: true,
+        query: 'parser bug'
+      }
+    ]
+
+    expect(formatDescription(tokens)).toBe(
+      '<match>dev</match> <dim>ABC-1</dim> <match>gh</match> <dim>parser bug</dim>'
+    )
+  })
+
+  it('should mark missing placeholders', () => {
+    expect(formatDescription([dev], [], ['ticket'])).toBe(
+      '<match>dev</match> <dim>{ticket}</dim>'
+    )
+  })
+
+  it('should list every URL of a multi-URL token', () => {
+    expect(formatDescription([dev], ['https://a.com', 'https://b.com'])).toBe(
+      '<match>dev</match> <dim>→ <url>https://a.com</url>, <url>https://b.com</url></dim>'
+    )
+  })
+
+  it('should escape markup in keys, segments and URLs', () => {
+    const tokens: ParsedToken[] = [
+      dev,
+      { key: '<b>', value: '%3Cb%3E', isResolved: false }
+    ]
+
+    expect(formatDescription(tokens, ['https://dev.app.com/?a=1&b=2'])).toBe(
+      '<match>dev</match> <dim>&lt;b&gt;</dim> ' +
+        '<dim>→ <url>https://dev.app.com/?a=1&amp;b=2</url></dim>'
+    )
+  })
+})
+
+describe('escapeXml', () => {
+  it('should escape all XML special characters', () => {
+    expect(escapeXml(`a & b < c > "d" 'e'`)).toBe(
+      'a &amp; b &lt; c &gt; &quot;d&quot; &apos;e&apos;'
+    )
+  })
+
+  it('should escape the ampersand of text that looks like an entity', () => {
+    expect(escapeXml('&amp;')).toBe('&amp;amp;')
+  })
+})
+
+describe('sanitizeTokenKey', () => {
+  it('should keep letters in any script', () => {
+    expect(sanitizeTokenKey(' Café Übersicht ')).toBe('caféübersicht')
+    expect(sanitizeTokenKey('ダッシュボード')).toBe('ダッシュボード')
+  })
+
+  it('should leave only characters valid token keys accept', () => {
+    const key = sanitizeTokenKey(`Jira: "sprint" #1 / {team}=a&b@x!`)
+
+    expect(key).toBe('jirasprint1teamabx')
+    expect(isValidTokenKey(key)).toBe(true)
+  })
+})
@@ -0,0 +1,83 @@
+import { HistoryManager } from '../src/core/history'
+import type { HistoryEntry } from '../src/types'
+
+describe('HistoryManager', () => {
+  const history = new HistoryManager()
+  let store: Record<string, unknown>
+
+  beforeEach(() => {
+    store = {}
+    ;(chrome.storage.local.get as jest.Mock).mockImplementation(
+      async (key: string) => ({ [key]: store[key] })
+    )
+    ;(chrome.storage.local.set as jest.Mock).mockImplementation(
+      async (items: Record<string, unknown>) => Object.assign(store, items)
+    )
+  })
+
+  const entry = (
+    input: string,
+    count: number,
+    daysAgo: number
+  ): HistoryEntry => ({
+    input,
+    url: `https://app.dev.com/${input.replace(/ /g, '/')}`,
+    tokens: [input.split(' ')[0]],
+    count,
+    lastUsed: Date.now() - daysAgo * 24 * 60 * 60 * 1000
+  })
+
+  describe('recordNavigation', () => {
+    it('should add new inputs and bump repeated ones', async () => {
+      await history.recordNavigation('dev 4821 admin', 'https://a/1', ['dev'])
+      await history.recordNavigation(' dev 4821 admin ', 'https://a/1', ['dev'])
+      await history.recordNavigation('prod', 'https://b', ['prod'])
+
+      const entries = await history.getEntries()
+      expect(entries).toHaveLength(2)
+      expect(entries[0]).toMatchObject({ input: 'dev 4821 admin', count: 2 })
+    })
+
+    it('should keep spacing inside quotes as typed', async () => {
+      await history.recordNavigation('dev "a  b"', 'https://a/a%20%20b', [
+        'dev'
+      ])
+      await history.recordNavigation('dev "a b"', 'https://a/a%20b', ['dev'])
+
+      const entries = await history.getEntries()
+      expect(entries.map(entry => entry.input).sort()).toEqual([
+        'dev "a  b"',
+        'dev "a b"'
+      ])
+    })
+  })
+
+  describe('findFrecent', () => {
+    it('should rank inputs that extend the text by frecency', () => {
+      const entries = [
+        entry('dev 1 admin', 10, 30),
+        entry('dev 4821 admin', 3, 0),
+        entry('prod 4821', 20, 0)
+      ]
+
+      const found = history.findFrecent(entries, 'dev')
+      expect(found.map(e => e.input)).toEqual(['dev 4821 admin', 'dev 1 admin'])
+    })
+
+    it('should skip an entry identical to the input', () => {
+      const entries = [entry('dev 4821', 1, 0)]
+      expect(history.findFrecent(entries, 'dev 4821')).toEqual([])
+    })
+  })
+
+  describe('getTokenLastUsed', () => {
+    it('should keep the latest use of each token', () => {
+      const older = entry('dev a', 1, 2)
+      const newer = entry('dev b', 1, 1)
+
+      expect(history.getTokenLastUsed([older, newer])).toEqual({
+        dev: newer.lastUsed
+      })
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import {
+  CURRENT_CONFIG_VERSION,
+  compareVersions,
+  MIGRATIONS,
+  migrateConfig
+} from '../src/core/migrations'
+import { DEFAULT_CONFIG } from '../src/utils/constants'
+
+describe('migrations', () => {
+  it('should keep DEFAULT_CONFIG at the current schema version', () => {
+    expect(DEFAULT_CONFIG.version).toBe(CURRENT_CONFIG_VERSION)
+  })
+
+  it('should list migrations in ascending version order', () => {
+    const versions = MIGRATIONS.map(migration => migration.version)
+    const sorted = [...versions].sort(compareVersions)
+
+    expect(versions).toEqual(sorted)
+  })
+
+  describe('compareVersions', () => {
+    it('should compare numerically per part', () => {
+      expect(compareVersions('1.10.0', '1.2.0')).toBeGreaterThan(0)
+      expect(compareVersions('1.2', '1.2.0')).toBe(0)
+      expect(compareVersions('0.9.9', '1.0.0')).toBeLessThan(0)
+    })
+  })
+
+  describe('migrateConfig', () => {
+    it('should upgrade legacy string and typed tokens', () => {
+      const { config, applied } = migrateConfig({
+        tokens: {
+          dev: 'https://app.dev.com',
+          api: { type: 'path', value: 'api/v1' },
+          broken: { type: 'base' }
+        },
+        version: '1.0.0'
+      })
+
+      expect(applied).toEqual(['1.1.0', '1.2.0'])
+      expect(config.tokens).toEqual({
+        dev: { value: 'https://app.dev.com' },
+        api: { value: 'api/v1' }
+      })
+      expect(config.version).toBe(CURRENT_CONFIG_VERSION)
+    })
+
+    it('should migrate profile tokens and drop a dangling active profile', () => {
+      const { config } = migrateConfig({
+        tokens: {},
+        profiles: { payments: { tokens: { api: 'api/v1' } } },
+        activeProfile: 'search',
+        version: '1.0.0'
+      })
+
+      expect(config.profiles).toEqual({
+        payments: { tokens: { api: { value: 'api/v1' } } }
+      })
+      expect(config.activeProfile).toBeUndefined()
+    })
+
+    it('should treat configs without a version as oldest', () => {
+      const { fromVersion, applied } = migrateConfig({ tokens: {} })
+
+      expect(fromVersion).toBe('0.0.0')
+      expect(applied).toHaveLength(MIGRATIONS.length)
+    })
+
+    it('should not run migrations on a current config', () => {
+      const { config, applied } = migrateConfig(DEFAULT_CONFIG)
+
+      expect(applied).toEqual([])
+      expect(config).toEqual(DEFAULT_CONFIG)
+    })
+
+    it('should fill in missing settings from defaults', () => {
+      const { config } = migrateConfig({
+        tokens: {},
+        settings: { trigger: '>>' },
+        version: '1.0.0'
+      })
+
+      expect(config.settings).toEqual({
+        ...DEFAULT_CONFIG.settings,
+        trigger: '>>'
+      })
+    })
+  })
+})
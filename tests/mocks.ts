@@ -0,0 +1,29 @@
+// In-memory stand-in for a chrome.storage area
+export function mockArea(area: typeof chrome.storage.sync) {
+  const data: Record<string, unknown> = {}
+
+  ;(area.get as jest.Mock).mockImplementation(
+    async (keys: string | string[]) => {
+      const result: Record<string, unknown> = {}
+      ;([] as string[]).concat(keys).forEach(key => {
+        if (key in data) result[key] = data[key]
+      })
+      return result
+    }
+  )
+  ;(area.set as jest.Mock).mockImplementation(
+    async (items: Record<string, unknown>) => {
+      // Values round-trip through JSON like real storage
+      Object.assign(data, JSON.parse(JSON.stringify(items)))
+    }
+  )
+  ;(area.remove as jest.Mock).mockImplementation(
+    async (keys: string | string[]) => {
+      ;([] as string[]).concat(keys).forEach(key => {
+        delete data[key]
+      })
+    }
+  )
+
+  return data
+}
@@ -0,0 +1,164 @@
+import {
+  buildFallbackSearchUrl,
+  describeEnter,
+  formatParseError,
+  isRawUrl,
+  OMNIBOX_HINT,
+  toSearchDisposition
+} from '../src/core/omnibox'
+import { URLParser } from '../src/core/parser'
+import type { DevNavigatorConfig } from '../src/types'
+import { DEFAULT_CONFIG, VALIDATION_ERRORS } from '../src/utils/constants'
+import { createValidationError } from '../src/utils/helpers'
+
+describe('describeEnter', () => {
+  const parser = new URLParser()
+  const config: DevNavigatorConfig = {
+    ...DEFAULT_CONFIG,
+    tokens: {
+      dev: { value: 'https://app.dev.com' },
+      prod: { value: 'https://app.com' },
+      api: { value: 'api/v1?a=1&b=2' },
+      jira: { value: 'https://jira.example.com/browse/{ticket}' }
+    }
+  }
+
+  const describeInput = (input: string, target = config) => {
+    const parsed = parser.parse(input, target)
+    return describeEnter(parsed, parser.constructAll(parsed, target), target)
+  }
+
+  it('should show the hint before anything is typed', () => {
+    expect(describeInput('')).toBe(OMNIBOX_HINT)
+  })
+
+  it('should show the resolved URL, escaped', () => {
+    expect(describeInput('dev api')).toBe(
+      '<match>dev</match> <match>api</match> ' +
+        '<dim>→ <url>https://app.dev.com/api/v1?a=1&amp;b=2</url></dim>'
+    )
+  })
+
+  it('should open a typed URL as it is', () => {
+    expect(describeInput(' https://example.com/?a=1&b=2 ')).toBe(
+      'Open <url>https://example.com/?a=1&amp;b=2</url>'
+    )
+  })
+
+  it('should parse token keys that start with http', () => {
+    const httpbin: DevNavigatorConfig = {
+      ...config,
+      tokens: { ...config.tokens, httpbin: { value: 'https://httpbin.org' } }
+    }
+
+    expect(isRawUrl('httpbin api')).toBe(false)
+    expect(describeInput('httpbin api', httpbin)).toBe(
+      '<match>httpbin</match> <match>api</match> ' +
+        '<dim>→ <url>https://httpbin.org/api/v1?a=1&amp;b=2</url></dim>'
+    )
+  })
+
+  it('should list the base tokens when the base is missing', () => {
+    expect(describeInput('api')).toBe(
+      'no base URL — add one of: dev, prod, jira ' +
+        '<dim>· Enter searches for it instead</dim>'
+    )
+  })
+
+  it('should mark missing placeholders', () => {
+    expect(describeInput('jira')).toBe(
+      '<match>jira</match> <dim>{ticket}</dim> — Missing value for: ticket ' +
+        '<dim>· Enter searches for it instead</dim>'
+    )
+  })
+
+  it('should name the configured fallback', () => {
+    const notify: DevNavigatorConfig = {
+      ...config,
+      settings: { ...config.settings, fallback: 'notify' }
+    }
+
+    expect(describeInput('api', notify)).toContain(
+      '<dim>· Enter shows this error</dim>'
+    )
+  })
+
+  it('should fall back to escaped plain text without descriptions', () => {
+    const plain: DevNavigatorConfig = {
+      ...config,
+      settings: { ...config.settings, showDescriptions: false }
+    }
+
+    expect(describeInput('dev api', plain)).toBe(
+      'https://app.dev.com/api/v1?a=1&amp;b=2'
+    )
+    expect(describeInput('api', plain)).toBe(
+      'no base URL — add one of: dev, prod, jira'
+    )
+  })
+})
+
+describe('formatParseError', () => {
+  const missingBase = createValidationError(
+    'tokens',
+    'No base URL found in tokens.',
+    VALIDATION_ERRORS.MISSING_BASE
+  )
+
+  it('should list base tokens of the profile the input targets', () => {
+    const config: DevNavigatorConfig = {
+      ...DEFAULT_CONFIG,
+      tokens: { dev: { value: 'https://app.dev.com' } },
+      profiles: {
+        payments: { tokens: { staging: { value: 'https://pay.staging.com' } } }
+      }
+    }
+
+    expect(formatParseError(missingBase, config, 'payments')).toBe(
+      'no base URL — add one of: dev, staging'
+    )
+  })
+
+  it('should explain how to add a base when none exists', () => {
+    expect(formatParseError(missingBase, DEFAULT_CONFIG)).toBe(
+      'no base URL — add a shortcut with a full http(s) URL first'
+    )
+  })
+
+  it('should keep other messages as they are', () => {
+    const error = createValidationError(
+      'placeholders',
+      'Missing value for: ticket',
+      VALIDATION_ERRORS.MISSING_PLACEHOLDER
+    )
+
+    expect(formatParseError(error, DEFAULT_CONFIG)).toBe(
+      'Missing value for: ticket'
+    )
+  })
+})
+
+describe('buildFallbackSearchUrl', () => {
+  it('should put the trimmed, encoded input into the template', () => {
+    expect(
+      buildFallbackSearchUrl(
+        'https://www.google.com/search?q=%s',
+        '  dev "a&b" '
+      )
+    ).toBe('https://www.google.com/search?q=dev%20%22a%26b%22')
+  })
+
+  it('should fill {query} templates', () => {
+    expect(
+      buildFallbackSearchUrl('https://duckduckgo.com/?q={query}', 'api')
+    ).toBe('https://duckduckgo.com/?q=api')
+  })
+})
+
+describe('toSearchDisposition', () => {
+  it('should open new tabs for both new-tab dispositions', () => {
+    expect(toSearchDisposition('currentTab')).toBe('CURRENT_TAB')
+    expect(toSearchDisposition('newForegroundTab')).toBe('NEW_TAB')
+    expect(toSearchDisposition('newBackgroundTab')).toBe('NEW_TAB')
+  })
+})
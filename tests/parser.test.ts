@@ -5,19 +5,19 @@ describe('URLParser', () => {
   const parser = new URLParser()
   const mockConfig: DevNavigatorConfig = {
     tokens: {
-      dev: { type: 'base', value: 'https://app.dev.com' },
-      prod: { type: 'base', value: 'https://app.com' },
-      staging: { type: 'base', value: 'https://staging.example.com' },
-      'staging-server': { type: 'base', value: 'https://staging-server.com' },
-      api: { type: 'path', value: 'api/v1' },
-      admin: { type: 'path', value: 'admin/dashboard' }
+      dev: { value: 'https://app.dev.com' },
+      prod: { value: 'https://app.com' },
+      staging: { value: 'https://staging.example.com' },
+      'staging-server': { value: 'https://staging-server.com' },
+      api: { value: 'api/v1' },
+      admin: { value: 'admin/dashboard' }
     },
     settings: {
       trigger: '>',
       defaultDisposition: 'currentTab',
       showDescriptions: true
     },
-    version: '1.0.0'
+    version: '1.2.0'
   }
 
   describe('parse', () => {
@@ -29,13 +29,11 @@ describe('URLParser', () => {
       expect(result.tokens[0]).toEqual({
         key: 'dev',
         value: 'https://app.dev.com',
-        type: 'base',
         isResolved: true
       })
       expect(result.tokens[1]).toEqual({
         key: 'api',
         value: 'api/v1',
-        type: 'path',
         isResolved: true
       })
     })
@@ -48,19 +46,16 @@ describe('URLParser', () => {
       expect(result.tokens[0]).toEqual({
         key: 'dev',
         value: 'https://app.dev.com',
-        type: 'base',
         isResolved: true
       })
       expect(result.tokens[1]).toEqual({
         key: 'session123',
         value: 'session123',
-        type: 'dynamic',
         isResolved: false
       })
       expect(result.tokens[2]).toEqual({
         key: 'api',
         value: 'api/v1',
-        type: 'path',
         isResolved: true
       })
     })
@@ -70,8 +65,8 @@ describe('URLParser', () => {
 
       expect(result.isValid).toBe(true)
       expect(result.tokens).toHaveLength(4)
-      expect(result.tokens[1].type).toBe('dynamic')
-      expect(result.tokens[2].type).toBe('dynamic')
+      expect(result.tokens[1].isResolved).toBe(false)
+      expect(result.tokens[2].isResolved).toBe(false)
       expect(result.tokens[1].key).toBe('segment1')
       expect(result.tokens[2].key).toBe('segment2')
     })
@@ -91,7 +86,6 @@ describe('URLParser', () => {
       expect(result.tokens[0]).toEqual({
         key: 'staging',
         value: 'https://staging.example.com',
-        type: 'base',
         isResolved: true
       })
     })
@@ -138,13 +132,11 @@ describe('URLParser', () => {
       expect(result.tokens[0]).toEqual({
         key: 'staging-server',
         value: 'https://staging-server.com',
-        type: 'base',
         isResolved: true
       })
       expect(result.tokens[1]).toEqual({
         key: 'api',
         value: 'api/v1',
-        type: 'path',
         isResolved: true
       })
     })
@@ -174,7 +166,7 @@ describe('URLParser', () => {
       const constructed = parser.construct(parsed, mockConfig)
 
       expect(constructed.isValid).toBe(false)
-      expect(constructed.description).toContain('Base token not found')
+      expect(constructed.description).toContain('No base URL found')
     })
 
     it('should construct URL from base-only pattern', () => {
@@ -217,6 +209,626 @@ describe('URLParser', () => {
     })
   })
 
+  describe('base tokens', () => {
+    const build = (input: string) =>
+      parser.construct(parser.parse(input, mockConfig), mockConfig)
+
+    it('should reject two different base tokens', () => {
+      const parsed = parser.parse('dev prod', mockConfig)
+
+      expect(parsed.isValid).toBe(false)
+      expect(parsed.errors).toEqual([
+        {
+          field: 'tokens',
+          message:
+            'Only one base URL allowed, found dev, prod. To open the current page on prod, use @prod',
+          code: 'MULTIPLE_BASES'
+        }
+      ])
+    })
+
+    it('should not append a second base as a path segment', () => {
+      const constructed = build('dev api prod')
+
+      expect(constructed.isValid).toBe(false)
+      expect(constructed.url).toBe('')
+      expect(constructed.description).toContain('Only one base URL allowed')
+    })
+
+    it('should list a repeated base once', () => {
+      const parsed = parser.parse('dev users dev', mockConfig)
+
+      expect(parsed.errors[0].code).toBe('MULTIPLE_BASES')
+      expect(parsed.errors[0].message).toContain('found dev.')
+    })
+
+    it('should report a missing base and multiple bases separately', () => {
+      expect(parser.parse('api admin', mockConfig).errors[0].code).toBe(
+        'MISSING_BASE'
+      )
+      expect(parser.parse('staging prod', mockConfig).errors[0].code).toBe(
+        'MULTIPLE_BASES'
+      )
+    })
+
+    it('should place path tokens typed before the base after it', () => {
+      expect(build('api dev').url).toBe('https://app.dev.com/api/v1')
+    })
+
+    it('should keep input order for segments around the base', () => {
+      expect(build('session123 dev api').url).toBe(
+        'https://app.dev.com/session123/api/v1'
+      )
+      expect(build('api dev admin').url).toBe(
+        'https://app.dev.com/api/v1/admin/dashboard'
+      )
+      expect(build('api user456 staging admin').url).toBe(
+        'https://staging.example.com/api/v1/user456/admin/dashboard'
+      )
+    })
+
+    it('should keep query and fragment parts typed before the base', () => {
+      expect(build('tab=logs dev api').url).toBe(
+        'https://app.dev.com/api/v1?tab=logs'
+      )
+    })
+
+    it('should treat a quoted base key as a path segment', () => {
+      expect(build('dev "prod"').url).toBe('https://app.dev.com/prod')
+    })
+
+    it('should let a profile base replace the global one instead of conflicting', () => {
+      const profileConfig: DevNavigatorConfig = {
+        ...mockConfig,
+        profiles: {
+          payments: { tokens: { dev: { value: 'https://pay.dev.com' } } }
+        }
+      }
+      const parsed = parser.parse('payments: dev api', profileConfig)
+
+      expect(parsed.isValid).toBe(true)
+      expect(parser.construct(parsed, profileConfig).url).toBe(
+        'https://pay.dev.com/api/v1'
+      )
+    })
+  })
+
+  describe('query strings and fragments', () => {
+    const queryConfig: DevNavigatorConfig = {
+      ...mockConfig,
+      tokens: {
+        ...mockConfig.tokens,
+        kibana: { value: 'https://kibana.example.com/app?space=dev#/home' },
+        tagged: { value: 'https://dev.com/?tag=a&tag=b' },
+        logs: { value: '?tab=logs&since=1h' },
+        recent: { value: '?since=15m' },
+        top: { value: '#top' },
+        search: { value: 'search?type=all' }
+      }
+    }
+
+    const build = (input: string) =>
+      parser.construct(parser.parse(input, queryConfig), queryConfig).url
+
+    it('should add query parts from tokens and typed segments', () => {
+      expect(build('dev api logs')).toBe(
+        'https://app.dev.com/api/v1?tab=logs&since=1h'
+      )
+      expect(build('dev api ?debug page=2')).toBe(
+        'https://app.dev.com/api/v1?debug&page=2'
+      )
+    })
+
+    it('should let later parameters replace earlier ones', () => {
+      expect(build('dev logs recent tab=traces')).toBe(
+        'https://app.dev.com?since=15m&tab=traces'
+      )
+    })
+
+    it('should add fragments after the query', () => {
+      expect(build('dev api #section logs')).toBe(
+        'https://app.dev.com/api/v1?tab=logs&since=1h#section'
+      )
+      expect(build('dev top #bottom')).toBe('https://app.dev.com#bottom')
+    })
+
+    it('should keep the query and fragment of the base URL when appending paths', () => {
+      expect(build('kibana discover')).toBe(
+        'https://kibana.example.com/app/discover?space=dev#/home'
+      )
+      expect(build('kibana discover space=prod #/logs')).toBe(
+        'https://kibana.example.com/app/discover?space=prod#/logs'
+      )
+    })
+
+    it('should keep repeated parameters of the base URL', () => {
+      expect(build('tagged api')).toBe('https://dev.com/api/v1?tag=a&tag=b')
+      expect(build('tagged api page=2')).toBe(
+        'https://dev.com/api/v1?tag=a&tag=b&page=2'
+      )
+      expect(build('tagged tag=c')).toBe('https://dev.com/?tag=c')
+    })
+
+    it('should split path tokens that carry their own query', () => {
+      expect(build('dev search users logs')).toBe(
+        'https://app.dev.com/search/users?type=all&tab=logs&since=1h'
+      )
+    })
+
+    it('should leave the base URL untouched when nothing follows it', () => {
+      expect(build('kibana')).toBe(
+        'https://kibana.example.com/app?space=dev#/home'
+      )
+    })
+  })
+
+  describe('encoding', () => {
+    const build = (input: string) =>
+      parser.construct(parser.parse(input, mockConfig), mockConfig).url
+
+    it('should percent-encode each dynamic path segment', () => {
+      expect(build('dev users user@example.com')).toBe(
+        'https://app.dev.com/users/user%40example.com'
+      )
+      expect(build('dev branches feature/foo')).toBe(
+        'https://app.dev.com/branches/feature%2Ffoo'
+      )
+      expect(build('dev 50%off')).toBe('https://app.dev.com/50%25off')
+    })
+
+    it('should encode unicode as UTF-8', () => {
+      expect(build('dev wiki café')).toBe('https://app.dev.com/wiki/caf%C3%A9')
+      expect(build('dev tag=日本')).toBe(
+        'https://app.dev.com?tag=%E6%97%A5%E6%9C%AC'
+      )
+    })
+
+    it('should keep query and fragment syntax while encoding their contents', () => {
+      expect(build('dev ?email=a@b.com&x=1 #/logs?id=1')).toBe(
+        'https://app.dev.com?email=a%40b.com&x=1#/logs?id=1'
+      )
+    })
+
+    it('should not encode existing escapes twice', () => {
+      expect(build('dev search%2Fall')).toBe('https://app.dev.com/search%2Fall')
+    })
+
+    it('should insert raw segments as written', () => {
+      expect(build('dev /feature/foo api')).toBe(
+        'https://app.dev.com/feature/foo/api/v1'
+      )
+    })
+
+    it('should leave configured token values untouched', () => {
+      const parsed = parser.parse('dev user@example.com', mockConfig)
+
+      expect(parsed.tokens[1]).toEqual({
+        key: 'user@example.com',
+        value: 'user%40example.com',
+        isResolved: false
+      })
+      expect(build('dev api')).toBe('https://app.dev.com/api/v1')
+    })
+  })
+
+  describe('quoting', () => {
+    const build = (input: string) =>
+      parser.construct(parser.parse(input, mockConfig), mockConfig).url
+
+    it('should keep quoted arguments as one encoded segment', () => {
+      expect(build('dev search "login bug"')).toBe(
+        'https://app.dev.com/search/login%20bug'
+      )
+    })
+
+    it('should allow quoted values in query parameters', () => {
+      expect(build('dev q="login bug"')).toBe(
+        'https://app.dev.com?q=login%20bug'
+      )
+    })
+
+    it('should treat quoted token keys as literal arguments', () => {
+      const parsed = parser.parse('dev "api"', mockConfig)
+
+      expect(parsed.tokens[1]).toEqual({
+        key: 'api',
+        value: 'api',
+        isResolved: false
+      })
+      expect(build('dev "api"')).toBe('https://app.dev.com/api')
+    })
+
+    it('should report unterminated quotes with their column', () => {
+      const parsed = parser.parse('dev search "login bug', mockConfig)
+
+      expect(parsed.errors).toContainEqual({
+        field: 'input',
+        message: 'Unterminated " quote at column 12',
+        code: 'UNTERMINATED_QUOTE',
+        column: 12
+      })
+      expect(parser.isValidFormat('dev search "login bug')).toBe(false)
+    })
+  })
+
+  describe('new tab suffix', () => {
+    it('should strip a trailing ! and flag the input', () => {
+      const parsed = parser.parse('dev api!', mockConfig)
+
+      expect(parsed.isValid).toBe(true)
+      expect(parsed.forceNewTab).toBe(true)
+      expect(parser.construct(parsed, mockConfig).url).toBe(
+        'https://app.dev.com/api/v1'
+      )
+    })
+
+    it('should accept a standalone !', () => {
+      const parsed = parser.parse('dev api !', mockConfig)
+
+      expect(parsed.forceNewTab).toBe(true)
+      expect(parsed.tokens.map(token => token.key)).toEqual(['dev', 'api'])
+    })
+
+    it('should keep a quoted ! as part of the segment', () => {
+      const parsed = parser.parse('dev "hello!"', mockConfig)
+
+      expect(parsed.forceNewTab).toBe(false)
+      expect(parsed.tokens[1].value).toBe('hello!')
+    })
+  })
+
+  describe('search tokens', () => {
+    const searchConfig: DevNavigatorConfig = {
+      ...mockConfig,
+      tokens: {
+        ...mockConfig.tokens,
+        gh: { value: 'https://github.com/search?q=%s&type=issues' },
+        find: { value: 'search?term={query}' },
+        stale: { value: '${removed}' }
+      }
+    }
+    const build = (input: string) =>
+      parser.construct(parser.parse(input, searchConfig), searchConfig)
+
+    it('should substitute the rest of the input into %s', () => {
+      const parsed = parser.parse('gh devnav parser bug', searchConfig)
+
+      expect(parsed.isValid).toBe(true)
+      expect(parsed.tokens).toEqual([
+        {
+          key: 'gh',
+          value:
+            'https://github.com/search?q=devnav%20parser%20bug&type=issues',
+          isResolved: true,
+          query: 'devnav parser bug'
+        }
+      ])
+      expect(build('gh devnav parser bug').description).toBe(
+        'Search gh for: devnav parser bug'
+      )
+    })
+
+    it('should substitute {query} in relative search tokens', () => {
+      expect(build('dev find a&b').url).toBe(
+        'https://app.dev.com/search?term=a%26b'
+      )
+    })
+
+    it('should join following token keys and quoted text as typed', () => {
+      expect(build('gh dev "api docs" 50%').url).toBe(
+        'https://github.com/search?q=dev%20api%20docs%2050%25&type=issues'
+      )
+    })
+
+    it('should not resolve or expand token keys in the query', () => {
+      const parsed = parser.parse('gh stale', searchConfig)
+
+      expect(parsed.errors).toEqual([])
+      expect(build('gh stale').url).toBe(
+        'https://github.com/search?q=stale&type=issues'
+      )
+    })
+
+    it('should leave the query empty when nothing follows', () => {
+      expect(build('gh').url).toBe('https://github.com/search?q=&type=issues')
+    })
+  })
+
+  describe('multi-URL tokens', () => {
+    const multiConfig: DevNavigatorConfig = {
+      ...mockConfig,
+      tokens: {
+        ...mockConfig.tokens,
+        incident: {
+          value:
+            'https://jira.acme.com/browse/INC-{1} | dev logs | https://status.acme.com'
+        },
+        logs: { value: 'logs' },
+        envs: { value: 'dev | prod' },
+        gh: { value: 'https://github.com/search?q=%s' }
+      }
+    }
+    const urls = (input: string) =>
+      parser
+        .constructAll(parser.parse(input, multiConfig), multiConfig)
+        .map(constructed => constructed.url)
+
+    it('should parse the input once per member', () => {
+      const parsed = parser.parse('incident 4821', multiConfig)
+
+      expect(parsed.isValid).toBe(true)
+      expect(parsed.multiToken).toBe('incident')
+      expect(parsed.members).toHaveLength(3)
+      expect(urls('incident 4821')).toEqual([
+        'https://jira.acme.com/browse/INC-4821',
+        'https://app.dev.com/logs/4821',
+        'https://status.acme.com/4821'
+      ])
+    })
+
+    it('should apply segments around the token to each member', () => {
+      expect(urls('envs api')).toEqual([
+        'https://app.dev.com/api/v1',
+        'https://app.com/api/v1'
+      ])
+    })
+
+    it('should keep the input as suggestion content', () => {
+      const constructed = parser.construct(
+        parser.parse('envs', multiConfig),
+        multiConfig
+      )
+
+      expect(constructed.isValid).toBe(true)
+      expect(constructed.content).toBe('envs')
+      expect(constructed.description).toBe(
+        'Open 2 tabs: https://app.dev.com, https://app.com'
+      )
+    })
+
+    it('should treat a multi-URL key after a search token as query text', () => {
+      const parsed = parser.parse('gh foo incident', multiConfig)
+
+      expect(parsed.members).toBeUndefined()
+      expect(urls('gh foo incident')).toEqual([
+        'https://github.com/search?q=foo%20incident'
+      ])
+    })
+
+    it('should report a base typed next to a multi-URL token once', () => {
+      const parsed = parser.parse('dev incident 5', multiConfig)
+
+      expect(parsed.isValid).toBe(false)
+      expect(parsed.errors).toEqual([
+        {
+          field: 'tokens',
+          message:
+            'Only one base URL allowed, found dev, incident. To open the current page on dev, use @dev',
+          code: 'MULTIPLE_BASES'
+        }
+      ])
+    })
+
+    it('should report member errors once', () => {
+      const parsed = parser.parse('incident', multiConfig)
+
+      expect(parsed.isValid).toBe(false)
+      expect(parsed.missingPlaceholders).toEqual(['1'])
+      expect(parsed.errors).toHaveLength(1)
+    })
+  })
+
+  describe('token references', () => {
+    const referenceConfig: DevNavigatorConfig = {
+      ...mockConfig,
+      tokens: {
+        ...mockConfig.tokens,
+        grafana: { value: 'https://grafana.acme.com' },
+        monitoring: { value: '${grafana}/d/{dashboard}' },
+        loop: { value: '${loop}/x' },
+        stale: { value: '${removed}' }
+      }
+    }
+
+    it('should expand references before filling placeholders', () => {
+      const parsed = parser.parse('monitoring overview', referenceConfig)
+
+      expect(parsed.isValid).toBe(true)
+      expect(parser.construct(parsed, referenceConfig).url).toBe(
+        'https://grafana.acme.com/d/overview'
+      )
+    })
+
+    it('should report reference cycles', () => {
+      const parsed = parser.parse('dev loop', referenceConfig)
+
+      expect(parsed.isValid).toBe(false)
+      expect(parsed.errors.map(error => error.code)).toEqual([
+        'REFERENCE_CYCLE'
+      ])
+    })
+
+    it('should report unknown references', () => {
+      const parsed = parser.parse('dev stale', referenceConfig)
+
+      expect(parsed.errors.map(error => error.code)).toEqual([
+        'UNKNOWN_REFERENCE'
+      ])
+    })
+
+    it('should switch environments onto referenced bases', () => {
+      const switched = parser.switchBase(
+        'https://app.dev.com/users',
+        'grafana',
+        referenceConfig
+      )
+
+      expect(switched.url).toBe('https://grafana.acme.com/users')
+    })
+  })
+
+  describe('placeholders', () => {
+    const templateConfig: DevNavigatorConfig = {
+      ...mockConfig,
+      tokens: {
+        ...mockConfig.tokens,
+        jira: { value: 'https://jira.acme.com/browse/{ticket}' },
+        grafana: {
+          value: 'https://grafana.acme.com/d/{dashboard}?var-env={env=prod}'
+        },
+        repo: { value: 'https://git.acme.com/{2}/{1}' }
+      }
+    }
+
+    it('should fill named placeholders from following segments', () => {
+      const parsed = parser.parse('jira ABC-123', templateConfig)
+      const constructed = parser.construct(parsed, templateConfig)
+
+      expect(parsed.isValid).toBe(true)
+      expect(parsed.tokens).toHaveLength(1)
+      expect(parsed.tokens[0].args).toEqual(['ABC-123'])
+      expect(parsed.missingPlaceholders).toEqual([])
+      expect(constructed.url).toBe('https://jira.acme.com/browse/ABC-123')
+    })
+
+    it('should fill positional placeholders by index', () => {
+      const parsed = parser.parse('repo parser devnav', templateConfig)
+      const constructed = parser.construct(parsed, templateConfig)
+
+      expect(constructed.url).toBe('https://git.acme.com/devnav/parser')
+    })
+
+    it('should use defaults for placeholders without a segment', () => {
+      const parsed = parser.parse('grafana abc', templateConfig)
+      const constructed = parser.construct(parsed, templateConfig)
+
+      expect(parsed.isValid).toBe(true)
+      expect(constructed.url).toBe(
+        'https://grafana.acme.com/d/abc?var-env=prod'
+      )
+    })
+
+    it('should prefer a segment over the default', () => {
+      const parsed = parser.parse('grafana abc qa', templateConfig)
+      const constructed = parser.construct(parsed, templateConfig)
+
+      expect(constructed.url).toBe(
+        'https://grafana.acme.com/d/abc?var-env=qa'
+      )
+    })
+
+    it('should append leftover segments to the path', () => {
+      const parsed = parser.parse('jira ABC-123 comments', templateConfig)
+      const constructed = parser.construct(parsed, templateConfig)
+
+      expect(parsed.tokens).toHaveLength(2)
+      expect(constructed.url).toBe(
+        'https://jira.acme.com/browse/ABC-123/comments'
+      )
+    })
+
+    it('should record unfilled placeholders', () => {
+      const parsed = parser.parse('jira', templateConfig)
+
+      expect(parsed.isValid).toBe(false)
+      expect(parsed.missingPlaceholders).toEqual(['ticket'])
+      expect(parsed.errors[0].code).toBe('MISSING_PLACEHOLDER')
+    })
+
+    it('should not consume segments after the next resolved token', () => {
+      const parsed = parser.parse('jira api ABC-123', templateConfig)
+
+      expect(parsed.missingPlaceholders).toEqual(['ticket'])
+      expect(parsed.tokens).toHaveLength(3)
+    })
+  })
+
+  describe('profiles', () => {
+    const profileConfig: DevNavigatorConfig = {
+      ...mockConfig,
+      profiles: {
+        payments: { tokens: { api: { value: 'api/v1' } } },
+        search: { tokens: { api: { value: 'graphql' } } }
+      },
+      activeProfile: 'search'
+    }
+
+    it('should resolve keys against the active profile first', () => {
+      const parsed = parser.parse('dev api', profileConfig)
+      const constructed = parser.construct(parsed, profileConfig)
+
+      expect(parsed.profile).toBe('search')
+      expect(constructed.url).toBe('https://app.dev.com/graphql')
+    })
+
+    it('should fall back to global tokens', () => {
+      const parsed = parser.parse('dev admin', profileConfig)
+
+      expect(parsed.tokens[1].value).toBe('admin/dashboard')
+    })
+
+    it('should target a profile with a prefix for one navigation', () => {
+      const parsed = parser.parse('payments: dev api', profileConfig)
+      const constructed = parser.construct(parsed, profileConfig)
+
+      expect(parsed.profile).toBe('payments')
+      expect(parsed.tokens).toHaveLength(2)
+      expect(constructed.url).toBe('https://app.dev.com/api/v1')
+    })
+
+    it('should report an unknown profile prefix', () => {
+      const parsed = parser.parse('billing: dev api', profileConfig)
+
+      expect(parsed.isValid).toBe(false)
+      expect(parsed.errors[0].code).toBe('UNKNOWN_PROFILE')
+    })
+  })
+
+  describe('switchBase', () => {
+    it('should keep path, query and hash when switching base', () => {
+      const switched = parser.switchBase(
+        'https://app.dev.com/users/42?tab=logs#top',
+        'prod',
+        mockConfig
+      )
+
+      expect(switched.isValid).toBe(true)
+      expect(switched.url).toBe('https://app.com/users/42?tab=logs#top')
+    })
+
+    it('should prefer the longest matching base', () => {
+      const config: DevNavigatorConfig = {
+        ...mockConfig,
+        tokens: {
+          ...mockConfig.tokens,
+          eu: { value: 'https://app.com/eu/' }
+        }
+      }
+
+      expect(
+        parser.findBaseToken('https://app.com/eu/orders', config)
+      ).toEqual({ key: 'eu', value: 'https://app.com/eu' })
+      expect(
+        parser.switchBase('https://app.com/eu/orders', 'dev', config).url
+      ).toBe('https://app.dev.com/orders')
+    })
+
+    it('should only match bases on a path boundary', () => {
+      expect(
+        parser.findBaseToken('https://app.company.com/x', mockConfig)
+      ).toBeNull()
+    })
+
+    it('should reject non-base targets and unknown pages', () => {
+      expect(
+        parser.switchBase('https://app.dev.com/x', 'api', mockConfig).isValid
+      ).toBe(false)
+      expect(
+        parser.switchBase('https://example.org/x', 'prod', mockConfig).isValid
+      ).toBe(false)
+    })
+  })
+
   describe('isValidFormat', () => {
     it('should validate correct format', () => {
       expect(parser.isValidFormat('dev api')).toBe(true)
@@ -226,14 +838,15 @@ describe('URLParser', () => {
       expect(parser.isValidFormat('@staging')).toBe(true) // Legacy base-only pattern
       expect(parser.isValidFormat('staging-server api')).toBe(true) // Token with dashes
       expect(parser.isValidFormat('  dev   api  ')).toBe(true) // Multiple spaces - should normalize
+      expect(parser.isValidFormat('dev ?debug tab=logs #top')).toBe(true) // Query and fragment parts
+      expect(parser.isValidFormat('dev users user@example.com')).toBe(true) // Encoded when built
+      expect(parser.isValidFormat('dev feature/foo café')).toBe(true)
     })
 
     it('should reject invalid format', () => {
       expect(parser.isValidFormat('@')).toBe(false)
       expect(parser.isValidFormat('')).toBe(false)
       expect(parser.isValidFormat('  ')).toBe(false)
-      expect(parser.isValidFormat('dev api!')).toBe(false) // Special characters not allowed
-      expect(parser.isValidFormat('dev api@')).toBe(false) // @ in middle not allowed
     })
   })
 })
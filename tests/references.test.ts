@@ -0,0 +1,64 @@
+import { expandReferences, findReferencedKeys } from '../src/core/references'
+import type { Token } from '../src/types'
+
+describe('expandReferences', () => {
+  const tokens: Record<string, Token> = {
+    grafana: { value: 'https://grafana.acme.com' },
+    monitoring: { value: '${grafana}/dashboards' },
+    api: { value: '${monitoring}/d/api?env=${env}' },
+    env: { value: 'prod' },
+    ping: { value: '${pong}/a' },
+    pong: { value: '${ping}/b' },
+    broken: { value: '${missing}/x' }
+  }
+
+  it('should leave values without references unchanged', () => {
+    expect(expandReferences('https://app.com/{1}', tokens)).toEqual({
+      value: 'https://app.com/{1}',
+      errors: []
+    })
+  })
+
+  it('should expand references recursively', () => {
+    expect(expandReferences(tokens.api.value, tokens, ['api'])).toEqual({
+      value: 'https://grafana.acme.com/dashboards/d/api?env=prod',
+      errors: []
+    })
+  })
+
+  it('should allow the same token to be referenced twice', () => {
+    expect(expandReferences('${env}-${env}', tokens).value).toBe('prod-prod')
+  })
+
+  it('should report cycles and leave the reference as written', () => {
+    const result = expandReferences(tokens.ping.value, tokens, ['ping'])
+
+    expect(result.value).toBe('${ping}/b/a')
+    expect(result.errors).toEqual([
+      {
+        field: 'tokens',
+        message: 'Token reference cycle: ping → pong → ping',
+        code: 'REFERENCE_CYCLE'
+      }
+    ])
+  })
+
+  it('should report unknown references', () => {
+    const result = expandReferences(tokens.broken.value, tokens, ['broken'])
+
+    expect(result.value).toBe('${missing}/x')
+    expect(result.errors).toEqual([
+      {
+        field: 'tokens',
+        message: 'Unknown token reference ${missing}',
+        code: 'UNKNOWN_REFERENCE'
+      }
+    ])
+  })
+})
+
+describe('findReferencedKeys', () => {
+  it('should list each referenced key once', () => {
+    expect(findReferencedKeys('${a}/${b}/${a}?q={1}')).toEqual(['a', 'b'])
+  })
+})
@@ -1,5 +1,6 @@
 // Jest setup file
 import 'jest';
+import { deserialize, serialize } from 'node:v8';
 
 // Mock Chrome APIs for testing
 global.chrome = {
@@ -10,8 +11,21 @@ global.chrome = {
       remove: jest.fn(),
       clear: jest.fn(),
     },
+    local: {
+      get: jest.fn(),
+      set: jest.fn(),
+      remove: jest.fn(),
+      clear: jest.fn(),
+    },
+    session: {
+      get: jest.fn(),
+      set: jest.fn(),
+      remove: jest.fn(),
+      clear: jest.fn(),
+    },
     onChanged: {
       addListener: jest.fn(),
+      removeListener: jest.fn(),
     },
   },
   omnibox: {
@@ -23,6 +37,10 @@ global.chrome = {
     },
     setDefaultSuggestion: jest.fn(),
   },
+  bookmarks: {
+    getTree: jest.fn(),
+    getChildren: jest.fn(),
+  },
   tabs: {
     update: jest.fn(),
     create: jest.fn(),
@@ -35,4 +53,8 @@ global.chrome = {
   runtime: {
     openOptionsPage: jest.fn(),
   },
-} as any;
\ No newline at end of file
+} as any;
+// jsdom doesn't expose structuredClone; extension pages and service workers do
+if (typeof global.structuredClone !== 'function') {
+  global.structuredClone = (value: any) => deserialize(serialize(value));
+}
@@ -0,0 +1,257 @@
+import { StorageManager } from '../src/core/storage'
+import type { DevNavigatorConfig } from '../src/types'
+import type { ConfigChangeEvent } from '../src/types/storage'
+import { DEFAULT_CONFIG } from '../src/utils/constants'
+import { resolveTokenMap } from '../src/utils/helpers'
+import { mockArea } from './mocks'
+
+describe('StorageManager', () => {
+  let sync: Record<string, unknown>
+  let local: Record<string, unknown>
+  let storage: StorageManager
+
+  beforeEach(() => {
+    sync = mockArea(chrome.storage.sync)
+    local = mockArea(chrome.storage.local)
+    ;(chrome.storage.onChanged.addListener as jest.Mock).mockClear()
+    storage = new StorageManager()
+  })
+
+  describe('getConfig', () => {
+    it('should save and return defaults when nothing is stored', async () => {
+      const config = await storage.getConfig()
+
+      expect(config).toEqual(DEFAULT_CONFIG)
+      expect(sync.dev_navigator_config).toEqual(DEFAULT_CONFIG)
+    })
+
+    it('should migrate a legacy config and back up the original', async () => {
+      const legacy = {
+        tokens: { dev: 'https://app.dev.com' },
+        settings: {},
+        version: '1.0.0'
+      }
+      sync.dev_navigator_config = legacy
+
+      const config = await storage.getConfig()
+
+      expect(config.tokens).toEqual({ dev: { value: 'https://app.dev.com' } })
+      expect(config.version).toBe(DEFAULT_CONFIG.version)
+      expect(local.dev_navigator_config_backup).toMatchObject({
+        fromVersion: '1.0.0',
+        config: legacy
+      })
+    })
+
+    it('should return a copy of the defaults', async () => {
+      const config = await storage.getConfig()
+      config.tokens.dev = { value: 'https://app.dev.com' }
+
+      expect(DEFAULT_CONFIG.tokens).toEqual({})
+    })
+
+    it('should not save over chunks that are still syncing', async () => {
+      const tokens: DevNavigatorConfig['tokens'] = {}
+      for (let i = 0; i < 100; i++) {
+        tokens[`token-${i}`] = {
+          value: `https://example.com/${'x'.repeat(200)}`
+        }
+      }
+      await storage.saveConfig({ ...DEFAULT_CONFIG, tokens })
+      const chunk = sync.dev_navigator_config_chunk_1
+      delete sync.dev_navigator_config_chunk_1
+
+      await expect(storage.getConfig()).rejects.toThrow('incomplete')
+      await expect(storage.setToken('new', 'https://new.com')).rejects.toThrow(
+        'incomplete'
+      )
+      expect(DEFAULT_CONFIG.tokens).toEqual({})
+
+      // The missing chunk arrives, and the config is intact
+      sync.dev_navigator_config_chunk_1 = chunk
+      const config = await storage.getConfig()
+      expect(Object.keys(config.tokens)).toHaveLength(100)
+    })
+  })
+
+  describe('subscribed tokens', () => {
+    const url = 'https://config.example.com/devnav.json'
+
+    beforeEach(async () => {
+      await storage.saveConfig({
+        ...DEFAULT_CONFIG,
+        tokens: { dev: { value: 'https://app.dev.com' } },
+        settings: { ...DEFAULT_CONFIG.settings, subscribeUrl: url }
+      })
+      local.dev_navigator_subscription = {
+        url,
+        tokens: {
+          dev: { value: 'https://team.dev.com' },
+          wiki: { value: 'https://wiki.example.com' }
+        },
+        lastSync: Date.now(),
+        lastAttempt: Date.now(),
+        error: null
+      }
+    })
+
+    it('should layer the cached team tokens under personal tokens', async () => {
+      const config = await storage.getConfig()
+
+      expect(config.subscribedTokens).toEqual({
+        dev: { value: 'https://team.dev.com' },
+        wiki: { value: 'https://wiki.example.com' }
+      })
+      expect(resolveTokenMap(config)).toEqual({
+        dev: { value: 'https://app.dev.com' },
+        wiki: { value: 'https://wiki.example.com' }
+      })
+    })
+
+    it('should never save the team tokens', async () => {
+      await storage.saveConfig(await storage.getConfig())
+
+      expect(sync.dev_navigator_config).not.toHaveProperty('subscribedTokens')
+    })
+
+    it('should ignore a cache for another URL', async () => {
+      await storage.updateSettings({ subscribeUrl: '' })
+
+      expect((await storage.getConfig()).subscribedTokens).toBeUndefined()
+    })
+  })
+
+  describe('setToken', () => {
+    it('should add a token to the stored config', async () => {
+      await storage.setToken('dev', 'https://app.dev.com')
+
+      expect((await storage.getConfig()).tokens).toEqual({
+        dev: { value: 'https://app.dev.com' }
+      })
+    })
+  })
+
+  describe('setTokenDisposition', () => {
+    it('should set and clear a token open mode, keeping its value', async () => {
+      await storage.setToken('prod', 'https://app.com')
+
+      await storage.setTokenDisposition('prod', 'newBackgroundTab')
+      expect((await storage.getConfig()).tokens.prod).toEqual({
+        value: 'https://app.com',
+        disposition: 'newBackgroundTab'
+      })
+
+      await storage.setTokenDisposition('prod', undefined)
+      expect((await storage.getConfig()).tokens.prod).toEqual({
+        value: 'https://app.com'
+      })
+    })
+
+    it('should reject unknown tokens', async () => {
+      await expect(
+        storage.setTokenDisposition('missing', 'newForegroundTab')
+      ).rejects.toThrow("Token 'missing' does not exist")
+    })
+  })
+
+  describe('setTokenGroup', () => {
+    it('should set and clear a tab group', async () => {
+      await storage.setToken('envs', 'dev | prod')
+
+      await storage.setTokenGroup('envs', { color: 'blue' })
+      expect((await storage.getConfig()).tokens.envs).toEqual({
+        value: 'dev | prod',
+        group: { color: 'blue' }
+      })
+
+      await storage.setTokenGroup('envs', undefined)
+      expect((await storage.getConfig()).tokens.envs).toEqual({
+        value: 'dev | prod'
+      })
+    })
+  })
+
+  describe('renameToken', () => {
+    beforeEach(async () => {
+      await storage.saveConfig({
+        ...DEFAULT_CONFIG,
+        tokens: {
+          dev: { value: 'https://app.dev.com' },
+          api: { value: 'api/v1' },
+          admin: { value: 'admin' }
+        }
+      })
+    })
+
+    it('should rename a token and keep its position', async () => {
+      await storage.renameToken('api', 'rest')
+
+      const { tokens } = await storage.getConfig()
+      expect(Object.keys(tokens)).toEqual(['dev', 'rest', 'admin'])
+      expect(tokens.rest).toEqual({ value: 'api/v1' })
+    })
+
+    it('should refuse to overwrite an existing key', async () => {
+      await expect(storage.renameToken('api', 'dev')).rejects.toThrow(
+        "Token 'dev' already exists"
+      )
+    })
+
+    it('should rename tokens inside a profile', async () => {
+      const config = await storage.getConfig()
+      await storage.saveConfig({
+        ...config,
+        profiles: { search: { tokens: { api: { value: 'graphql' } } } }
+      })
+
+      await storage.renameToken('api', 'gql', 'search')
+
+      const { tokens, profiles } = await storage.getConfig()
+      expect(profiles?.search.tokens).toEqual({ gql: { value: 'graphql' } })
+      expect(tokens.api).toEqual({ value: 'api/v1' })
+    })
+  })
+
+  describe('onConfigChanged', () => {
+    const emitChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      const handler = (chrome.storage.onChanged.addListener as jest.Mock).mock
+        .calls[0][0]
+      handler(changes, areaName)
+    }
+
+    it('should emit a typed event with the re-read config', async () => {
+      await storage.setToken('dev', 'https://app.dev.com')
+      const events: ConfigChangeEvent[] = []
+      storage.onConfigChanged(event => events.push(event))
+
+      emitChange({ dev_navigator_config_chunk_0: {} }, 'sync')
+      await new Promise(resolve => setTimeout(resolve, 0))
+
+      expect(events).toHaveLength(1)
+      expect(events[0].areaName).toBe('sync')
+      expect(events[0].config.tokens.dev).toEqual({
+        value: 'https://app.dev.com'
+      })
+    })
+
+    it('should ignore unrelated keys', async () => {
+      const listener = jest.fn()
+      storage.onConfigChanged(listener)
+
+      emitChange({ dev_navigator_history: {} }, 'local')
+      await new Promise(resolve => setTimeout(resolve, 0))
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should return an unsubscribe function', () => {
+      const unsubscribe = storage.onConfigChanged(jest.fn())
+      unsubscribe()
+
+      expect(chrome.storage.onChanged.removeListener).toHaveBeenCalled()
+    })
+  })
+})
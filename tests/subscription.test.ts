@@ -0,0 +1,108 @@
+import { SubscriptionManager } from '../src/core/subscription'
+import { STORAGE_KEYS, SUBSCRIPTION } from '../src/utils/constants'
+import { mockArea } from './mocks'
+
+describe('SubscriptionManager', () => {
+  const url = 'https://config.example.com/devnav.json'
+  const subscription = new SubscriptionManager()
+  let local: Record<string, unknown>
+  let fetchMock: jest.Mock
+
+  beforeEach(() => {
+    local = mockArea(chrome.storage.local)
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  const respond = (status: number, body: unknown) =>
+    fetchMock.mockResolvedValueOnce({
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => body
+    })
+
+  describe('refresh', () => {
+    it('should cache the global tokens of the fetched config', async () => {
+      respond(200, {
+        devNavigator: {
+          version: '1.2.0',
+          tokens: { grafana: { value: 'https://grafana.example.com' } }
+        }
+      })
+
+      const state = await subscription.refresh(url)
+
+      expect(fetchMock).toHaveBeenCalledWith(url, { cache: 'no-store' })
+      expect(state.tokens).toEqual({
+        grafana: { value: 'https://grafana.example.com' }
+      })
+      expect(state.error).toBeNull()
+      expect(state.lastSync).toBe(state.lastAttempt)
+      expect(local[STORAGE_KEYS.SUBSCRIPTION]).toEqual(state)
+    })
+
+    it('should accept a bare config', async () => {
+      respond(200, { tokens: { wiki: 'https://wiki.example.com' } })
+
+      const state = await subscription.refresh(url)
+
+      expect(state.tokens).toEqual({
+        wiki: { value: 'https://wiki.example.com' }
+      })
+    })
+
+    it('should keep the last good tokens when a fetch fails', async () => {
+      respond(200, { tokens: { wiki: { value: 'https://wiki.example.com' } } })
+      const first = await subscription.refresh(url)
+
+      respond(404, null)
+      const second = await subscription.refresh(url)
+
+      expect(second.error).toBe('Server responded with 404')
+      expect(second.tokens).toEqual(first.tokens)
+      expect(second.lastSync).toBe(first.lastSync)
+
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      expect((await subscription.refresh(url)).error).toBe('Failed to fetch')
+    })
+
+    it('should report invalid configs and drop tokens from another URL', async () => {
+      respond(200, { tokens: { wiki: { value: 'https://wiki.example.com' } } })
+      await subscription.refresh(url)
+
+      respond(200, { tokens: { 'bad key': { value: 'x' } } })
+      const state = await subscription.refresh(
+        'https://other.example.com/c.json'
+      )
+
+      expect(state.error).toContain("Token 'bad key'")
+      expect(state.tokens).toEqual({})
+      expect(state.lastSync).toBeNull()
+    })
+  })
+
+  describe('isStale', () => {
+    it('should refresh for a new URL or after the refresh interval', () => {
+      const state = {
+        url,
+        tokens: {},
+        lastSync: Date.now(),
+        lastAttempt: Date.now(),
+        error: null
+      }
+
+      expect(subscription.isStale(null, url)).toBe(true)
+      expect(subscription.isStale(state, url)).toBe(false)
+      expect(subscription.isStale(state, `${url}?v=2`)).toBe(true)
+      expect(
+        subscription.isStale(
+          {
+            ...state,
+            lastAttempt: Date.now() - SUBSCRIPTION.REFRESH_MINUTES * 60 * 1000
+          },
+          url
+        )
+      ).toBe(true)
+    })
+  })
+})
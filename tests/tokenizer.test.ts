@@ -0,0 +1,64 @@
+import { tokenizeInput } from '../src/core/tokenizer'
+
+describe('tokenizeInput', () => {
+  const texts = (input: string) =>
+    tokenizeInput(input).segments.map(segment => segment.text)
+
+  it('should split on any run of whitespace', () => {
+    expect(texts('  dev \t api  users ')).toEqual(['dev', 'api', 'users'])
+    expect(texts('   ')).toEqual([])
+  })
+
+  it('should record 1-based columns and whether a segment was quoted', () => {
+    expect(tokenizeInput('dev  "a b"').segments).toEqual([
+      { text: 'dev', column: 1, quoted: false },
+      { text: 'a b', column: 6, quoted: true }
+    ])
+  })
+
+  it('should keep spaces inside double and single quotes', () => {
+    expect(texts('search "login bug" \'two words\'')).toEqual([
+      'search',
+      'login bug',
+      'two words'
+    ])
+  })
+
+  it('should join quotes that sit mid-segment', () => {
+    expect(texts('q="login bug"&page=2 a"b"c')).toEqual([
+      'q=login bug&page=2',
+      'abc'
+    ])
+  })
+
+  it('should apply backslash escapes outside quotes and in double quotes', () => {
+    expect(texts('login\\ bug \\"x\\"')).toEqual(['login bug', '"x"'])
+    expect(texts('"say \\"hi\\""')).toEqual(['say "hi"'])
+  })
+
+  it('should keep backslashes literal inside single quotes', () => {
+    expect(texts("'C:\\temp'")).toEqual(['C:\\temp'])
+  })
+
+  it('should drop empty quoted segments', () => {
+    expect(texts('dev "" api')).toEqual(['dev', 'api'])
+  })
+
+  it('should report an unterminated quote with the column it opened at', () => {
+    const result = tokenizeInput("dev search 'login bug")
+
+    expect(result.segments[2]).toEqual({
+      text: 'login bug',
+      column: 12,
+      quoted: true
+    })
+    expect(result.errors).toEqual([
+      {
+        field: 'input',
+        message: "Unterminated ' quote at column 12",
+        code: 'UNTERMINATED_QUOTE',
+        column: 12
+      }
+    ])
+  })
+})
@@ -0,0 +1,210 @@
+import {
+  applyImport,
+  createExport,
+  exportAsBookmarksHtml,
+  exportAsCsv,
+  exportAsMarkdown,
+  parseCsvImport,
+  parseImport,
+  previewImport
+} from '../src/core/transfer'
+import type { DevNavigatorConfig } from '../src/types'
+import { DEFAULT_CONFIG, EXPORT_FORMAT } from '../src/utils/constants'
+
+describe('config transfer', () => {
+  const current: DevNavigatorConfig = {
+    ...DEFAULT_CONFIG,
+    tokens: {
+      dev: { value: 'https://dev.app.com' },
+      api: { value: 'api/v1' }
+    },
+    profiles: {
+      payments: { tokens: { api: { value: 'payments/api' } } }
+    },
+    activeProfile: 'payments'
+  }
+
+  describe('parseImport', () => {
+    it('should round-trip its own export', () => {
+      const result = parseImport(
+        JSON.parse(JSON.stringify(createExport(current)))
+      )
+
+      expect(result.isValid).toBe(true)
+      expect(result.config?.devNavigator).toMatchObject({
+        format: EXPORT_FORMAT,
+        tokens: current.tokens,
+        profiles: current.profiles,
+        settings: current.settings
+      })
+    })
+
+    it('should accept the legacy side panel export', () => {
+      const result = parseImport({
+        version: '1.0.0',
+        exportDate: '2024-01-01T00:00:00.000Z',
+        config: { tokens: { prod: { type: 'base', value: 'https://app.com' } } }
+      })
+
+      expect(result.isValid).toBe(true)
+      expect(result.config?.devNavigator.exported).toBe(
+        '2024-01-01T00:00:00.000Z'
+      )
+      expect(result.config?.devNavigator.tokens).toEqual({
+        prod: { value: 'https://app.com' }
+      })
+    })
+
+    it('should accept the legacy StorageManager export', () => {
+      const result = parseImport({
+        devNavigator: {
+          version: '1.0.0',
+          exported: '2024-01-01T00:00:00.000Z',
+          tokens: { prod: 'https://app.com' }
+        }
+      })
+
+      expect(result.isValid).toBe(true)
+      expect(result.config?.devNavigator.tokens).toEqual({
+        prod: { value: 'https://app.com' }
+      })
+      expect(result.config?.devNavigator.settings).toBeUndefined()
+    })
+
+    it('should reject unknown files and invalid tokens', () => {
+      expect(parseImport({ foo: 1 }).isValid).toBe(false)
+      expect(parseImport('not json').isValid).toBe(false)
+
+      const result = parseImport({
+        devNavigator: {
+          version: '1.2.0',
+          tokens: { 'bad key': { value: 'x' }, empty: { value: ' ' } },
+          profiles: { team: { tokens: { api: { value: 42 } } } }
+        }
+      })
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toEqual([
+        "Token 'bad key': key can't contain spaces or URL syntax characters",
+        "Token 'empty': value must be a non-empty string",
+        "Token 'team:api': value must be a non-empty string"
+      ])
+    })
+
+    it('should reject settings the omnibox cannot use', () => {
+      const result = parseImport({
+        devNavigator: {
+          version: '1.2.0',
+          tokens: {},
+          settings: {
+            fallback: 'explode',
+            fallbackSearchUrl: 'https://search.example.com/',
+            subscribeUrl: 'file:///etc/passwd'
+          }
+        }
+      })
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toEqual([
+        'Settings: subscribeUrl must be a valid http(s) URL',
+        'Settings: fallback must be one of search, newToken, notify, defaultSearch',
+        'Settings: fallbackSearchUrl must be a valid http(s) URL containing %s'
+      ])
+    })
+  })
+
+  describe('applyImport and previewImport', () => {
+    const exported = parseImport({
+      devNavigator: {
+        version: '1.2.0',
+        tokens: {
+          dev: { value: 'https://dev2.app.com' },
+          staging: { value: 'https://staging.app.com' }
+        },
+        settings: { ...DEFAULT_CONFIG.settings, showDescriptions: false }
+      }
+    }).config!
+
+    it('should keep tokens missing from the file when merging', () => {
+      const next = applyImport(current, exported, 'merge')
+
+      expect(Object.keys(next.tokens)).toEqual(['dev', 'api', 'staging'])
+      expect(next.profiles).toEqual(current.profiles)
+      expect(next.activeProfile).toBe('payments')
+      expect(next.settings.showDescriptions).toBe(true)
+      expect(previewImport(current, next)).toEqual({
+        added: ['staging'],
+        changed: ['dev'],
+        removed: []
+      })
+    })
+
+    it('should drop tokens and profiles missing from the file when replacing', () => {
+      const next = applyImport(current, exported, 'replace')
+
+      expect(Object.keys(next.tokens)).toEqual(['dev', 'staging'])
+      expect(next.activeProfile).toBeUndefined()
+      expect(next.settings.showDescriptions).toBe(false)
+      expect(previewImport(current, next)).toEqual({
+        added: ['staging'],
+        changed: ['dev'],
+        removed: ['api', 'payments:api']
+      })
+    })
+  })
+
+  describe('file formats', () => {
+    const tokens = {
+      prod: { value: 'https://app.com/?a=1&b="2"' },
+      api: { value: 'api/v1' },
+      pipe: { value: 'a|b, c' }
+    }
+
+    it('should export absolute URLs as a Netscape bookmark file', () => {
+      const html = exportAsBookmarksHtml(tokens)
+
+      expect(html).toMatch(/^<!DOCTYPE NETSCAPE-Bookmark-file-1>/)
+      expect(html).toContain(
+        '<DT><A HREF="https://app.com/?a=1&amp;b=&quot;2&quot;">prod</A>'
+      )
+      expect(html).not.toContain('api/v1')
+    })
+
+    it('should export a Markdown table with escaped pipes', () => {
+      expect(exportAsMarkdown(tokens).split('\n')).toEqual([
+        '| Shortcut | Value |',
+        '| --- | --- |',
+        '| `prod` | https://app.com/?a=1&b="2" |',
+        '| `api` | api/v1 |',
+        '| `pipe` | a\\|b, c |',
+        ''
+      ])
+    })
+
+    it('should round-trip tokens through CSV', () => {
+      const result = parseCsvImport(exportAsCsv(tokens))
+
+      expect(result.isValid).toBe(true)
+      expect(result.config?.devNavigator.tokens).toEqual(tokens)
+    })
+
+    it('should read CSV without a header and with CRLF line endings', () => {
+      const result = parseCsvImport(
+        'dev,https://dev.app.com\r\n\r\nqa , qa/v2\r\n'
+      )
+
+      expect(result.config?.devNavigator.tokens).toEqual({
+        dev: { value: 'https://dev.app.com' },
+        qa: { value: 'qa/v2' }
+      })
+    })
+
+    it('should reject malformed CSV rows', () => {
+      expect(parseCsvImport('key,value\ndev\n').errors).toEqual([
+        'Row 1: expected key and value'
+      ])
+      expect(parseCsvImport('key,value\n').isValid).toBe(false)
+      expect(parseCsvImport('bad key,x').isValid).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { UndoHistory } from '../src/core/undo'
+import type { DevNavigatorConfig } from '../src/types'
+import { DEFAULT_CONFIG, STORAGE_KEYS, UNDO } from '../src/utils/constants'
+import { mockArea } from './mocks'
+
+describe('UndoHistory', () => {
+  const undoHistory = new UndoHistory()
+  let store: Record<string, unknown>
+
+  beforeEach(() => {
+    store = mockArea(chrome.storage.session)
+  })
+
+  const config = (...keys: string[]): DevNavigatorConfig => ({
+    ...DEFAULT_CONFIG,
+    tokens: Object.fromEntries(
+      keys.map(key => [key, { value: `https://${key}.com` }])
+    )
+  })
+
+  it('should step back and forward through recorded changes', async () => {
+    await undoHistory.record("Deleted 'prod'", config('dev', 'prod'))
+
+    const undone = await undoHistory.undo(config('dev'))
+    expect(undone?.label).toBe("Deleted 'prod'")
+    expect(Object.keys(undone!.config.tokens)).toEqual(['dev', 'prod'])
+
+    const redone = await undoHistory.redo(config('dev', 'prod'))
+    expect(Object.keys(redone!.config.tokens)).toEqual(['dev'])
+
+    expect(await undoHistory.redo(config('dev'))).toBeNull()
+  })
+
+  it('should return null when there is nothing to undo', async () => {
+    expect(await undoHistory.undo(config('dev'))).toBeNull()
+  })
+
+  it('should clear the redo stack when a new change is recorded', async () => {
+    await undoHistory.record("Deleted 'prod'", config('dev', 'prod'))
+    await undoHistory.undo(config('dev'))
+    await undoHistory.record("Deleted 'dev'", config('dev', 'prod'))
+
+    expect(await undoHistory.redo(config('prod'))).toBeNull()
+  })
+
+  it('should drop snapshots older than the undo window', async () => {
+    await undoHistory.record("Deleted 'prod'", config('dev', 'prod'))
+
+    const stacks = store[STORAGE_KEYS.UNDO] as {
+      undo: { timestamp: number }[]
+    }
+    stacks.undo[0].timestamp = Date.now() - UNDO.TTL_MS - 1
+
+    expect(await undoHistory.undo(config('dev'))).toBeNull()
+  })
+
+  it('should keep at most UNDO.MAX_SNAPSHOTS snapshots', async () => {
+    for (let i = 0; i < UNDO.MAX_SNAPSHOTS + 5; i++) {
+      await undoHistory.record(`Change ${i}`, config(`t${i}`))
+    }
+
+    const { undo } = await undoHistory.load()
+    expect(undo).toHaveLength(UNDO.MAX_SNAPSHOTS)
+    expect(undo[undo.length - 1].label).toBe(`Change ${UNDO.MAX_SNAPSHOTS + 4}`)
+  })
+})